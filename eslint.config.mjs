@@ -127,7 +127,10 @@ export default tseslint.config(
       'no-restricted-exports': 'error',
       'no-restricted-globals': 'error',
       'no-restricted-imports': 'error',
-      'no-restricted-properties': 'error',
+      'no-restricted-properties': ['error',
+        { property: 'flat', message: 'Array.prototype.flat is not available in ES2018, use reduce and concat instead.' },
+        { property: 'flatMap', message: 'Array.prototype.flatMap is not available in ES2018, use reduce and concat instead.' }
+      ],
       'no-restricted-syntax': 'error',
       'no-return-assign': 'error',
       'no-return-await': 'error',
@@ -11,8 +11,11 @@ export default () => {
         format: 'cjs'
       },
       external: [
+        'fs',
         'node-html-parser',
-        'postcss'
+        'path',
+        'postcss',
+        'tinyglobby'
       ],
       plugins: [
         esbuild({ target: 'es2018' }),
@@ -21,6 +24,26 @@ export default () => {
         })
       ]
     },
+    {
+      input: 'src/bin.ts',
+      output: {
+        file: 'dist/bin.js',
+        format: 'cjs',
+        banner: '#!/usr/bin/env node'
+      },
+      external: [
+        'fs',
+        'node-html-parser',
+        'path',
+        'postcss',
+        'process',
+        'tinyglobby',
+        'util'
+      ],
+      plugins: [
+        esbuild({ target: 'es2018' })
+      ]
+    },
     {
       input: 'src/index.ts',
       output: [
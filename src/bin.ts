@@ -0,0 +1,4 @@
+import process from 'process';
+import { run } from './cli.ts';
+
+process.exitCode = run(process.argv.slice(2), process);
@@ -0,0 +1,144 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, isAbsolute, join, relative, resolve } from 'path';
+import { parseArgs } from 'util';
+import { extract, format, formatWarning } from './extract.ts';
+import type { SelectorType } from './extract.ts';
+
+export interface CliStreams {
+  stdout: { write: (text: string) => unknown };
+  stderr: { write: (text: string) => unknown };
+}
+
+export const usage = `Usage: postcss-inline-extract [options] <files or globs...>
+
+Extracts inline styles from HTML files into a stylesheet.
+
+Options:
+  -o, --output <file>     Write the extracted CSS to a file instead of stdout
+  -d, --html-dir <dir>    Write the rewritten HTML files to a directory
+  -s, --selector <types>  Comma-separated selector types (class, id, hash, path)
+      --style-tags        Also extract <style> tags
+      --indent <number>   Number of spaces for CSS indentation (default: 2)
+      --cwd <dir>         Directory the files and globs are relative to
+      --strict            Exit with an error when warnings occur
+  -h, --help              Show this help
+`;
+
+const selectorTypes: SelectorType[] = ['class', 'id', 'hash', 'path'];
+
+/**
+ * Parses the comma-separated `--selector` value into selector types.
+ * @param value - The option value.
+ * @returns The selector types.
+ */
+const parseSelector = (value: string) => {
+  return value.split(',').map(type => type.trim()).filter(Boolean).map(type => {
+    if (!selectorTypes.includes(type as SelectorType)) {
+      throw new Error(`Invalid selector type "${type}", expected one of ${selectorTypes.join(', ')}`);
+    }
+    return type as SelectorType;
+  });
+};
+
+/**
+ * Parses the `--indent` value into a number of spaces.
+ * @param value - The option value.
+ * @returns The number of spaces.
+ */
+const parseIndent = (value: string) => {
+  const indent = Number(value);
+
+  if (!Number.isInteger(indent) || indent < 1) {
+    throw new Error(`Invalid indent "${value}", expected a positive integer`);
+  }
+  return indent;
+};
+
+/**
+ * Writes a file, creating its parent directories as needed.
+ * @param file - The path of the file.
+ * @param content - The content to write.
+ */
+const writeFile = (file: string, content: string) => {
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, content);
+};
+
+/**
+ * Runs the command line interface.
+ * The extracted CSS is written to `--output` or stdout, and the rewritten HTML files to `--html-dir`,
+ * keeping their paths relative to `--cwd`. Warnings are printed to stderr;
+ * with `--strict`, no output is written and the exit code is 1 when any warning occurs.
+ * @param args - The command line arguments, without the node and script paths.
+ * @param streams - The streams to write the CSS, warnings and errors to.
+ * @returns The exit code.
+ */
+export const run = (args: string[], streams: CliStreams) => {
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        'output': { type: 'string', short: 'o' },
+        'html-dir': { type: 'string', short: 'd' },
+        'selector': { type: 'string', short: 's' },
+        'style-tags': { type: 'boolean' },
+        'indent': { type: 'string' },
+        'cwd': { type: 'string' },
+        'strict': { type: 'boolean' },
+        'help': { type: 'boolean', short: 'h' }
+      }
+    });
+
+    if (values.help) {
+      streams.stdout.write(usage);
+      return 0;
+    }
+    if (positionals.length === 0) {
+      throw new Error('No input files given');
+    }
+
+    const cwd = resolve(values.cwd ?? '.');
+    const indent = values.indent === undefined ? 2 : parseIndent(values.indent);
+    const { styles, origins, documents, warnings } = extract({
+      files: positionals,
+      cwd,
+      styleTags: values['style-tags'] ?? false,
+      ...(values.selector === undefined ? {} : { selector: parseSelector(values.selector) })
+    });
+
+    if (documents.length === 0) {
+      throw new Error(`No HTML files matched ${positionals.join(', ')}`);
+    }
+    warnings.forEach(warning => streams.stderr.write(`Warning: ${formatWarning(warning)}\n`));
+
+    if (values.strict && warnings.length > 0) {
+      streams.stderr.write(`Failed with ${warnings.length} warning(s) in strict mode\n`);
+      return 1;
+    }
+
+    const dir = values['html-dir'] === undefined ? undefined : resolve(values['html-dir']);
+    const pages = dir === undefined ? [] : documents.map(({ file, html }) => {
+      const path = relative(cwd, file ?? '');
+
+      if (path.startsWith('..') || isAbsolute(path)) {
+        throw new Error(`Cannot write ${file ?? ''} to the HTML directory as it is outside of ${cwd}`);
+      }
+      return { file: join(dir, path), html };
+    });
+    const css = format(styles, indent, undefined, origins);
+
+    if (values.output === undefined) {
+      streams.stdout.write(css);
+    } else {
+      writeFile(resolve(values.output), css);
+    }
+    pages.forEach(({ file, html }) => writeFile(file, html));
+    return 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    streams.stderr.write(`Error: ${message}\n`);
+    return 1;
+  }
+};
@@ -1,20 +1,307 @@
 import { parse as htmlParse } from 'node-html-parser';
-import { parse } from 'postcss';
+import type { HTMLElement } from 'node-html-parser';
+import { resolve } from 'path';
+import { CssSyntaxError, Input, list as cssList, parse } from 'postcss';
+import type { AtRule, ChildNode, Container, Declaration, Position, Root, Source } from 'postcss';
+import { readFiles } from './files.ts';
+import { collapsible, longhands, overrides, shorthandValue, shorthandsOf } from './shorthand.ts';
 
-export type SelectorType = 'class' | 'id' | 'hash';
+export type SelectorType = 'class' | 'id' | 'hash' | 'path';
+
+export interface SelectorNode {
+  tagName: string;
+  attributes: Record<string, string>;
+}
+
+export interface SelectorElement extends SelectorNode {
+  ancestors: SelectorNode[];
+  props: string[];
+  index: number;
+}
+
+export type SelectorFunction = (element: SelectorElement) => string | null;
+
+export type SelectorStrategy = SelectorType | SelectorFunction;
+
+export type SpecificityMode = 'none' | 'important' | 'boost' | 'layer';
+
+export type InsertMode = 'replace' | 'append' | 'prepend' | 'merge';
+
+export type ConflictPolicy = 'first' | 'last' | 'error' | 'warn';
+
+export interface HashOptions {
+  prefix?: string;
+  length?: number;
+  path?: boolean;
+}
+
+export interface PathOptions {
+  maxDepth?: number;
+}
+
+export interface AtomicOptions {
+  apply?: boolean;
+}
+
+export interface DedupeOptions {
+  factor?: boolean;
+}
+
+export interface ScopeOptions {
+  selector: string;
+  rule?: boolean;
+}
+
+export interface OutputOptions {
+  tabs?: boolean;
+  declarationOrder?: 'sorted' | 'source';
+  ruleOrder?: 'source' | 'selector';
+  layout?: 'expanded' | 'compact' | 'minified';
+  comments?: boolean;
+}
 
 export interface PluginOptions {
-  html: string;
-  selector?: SelectorType | SelectorType[];
+  html?: string;
+  files?: string | string[];
+  cwd?: string;
+  selector?: SelectorStrategy | SelectorStrategy[];
+  hash?: HashOptions;
+  path?: PathOptions;
+  atomic?: boolean | AtomicOptions;
+  dedupe?: boolean | DedupeOptions;
+  collapse?: boolean;
+  prefix?: string;
+  scope?: string | ScopeOptions;
+  layer?: string;
+  specificity?: SpecificityMode;
+  templates?: boolean;
+  include?: string | string[];
+  exclude?: string | string[];
+  keepAttribute?: string | false;
+  states?: Record<string, string>;
+  skipExisting?: boolean;
+  svg?: boolean;
+  interpolation?: RegExp | false;
+  strict?: boolean;
   styleTags?: boolean;
   indent?: number;
+  output?: OutputOptions;
+  mode?: InsertMode;
+  conflict?: ConflictPolicy;
+}
+
+export interface ResolvedOptions extends Required<Omit<PluginOptions, 'files' | 'hash' | 'path' | 'atomic' | 'dedupe' | 'scope' | 'include' | 'exclude' | 'output'>> {
+  files: string[];
+  include: string[];
+  exclude: string[];
+  hash: Required<HashOptions>;
+  path: Required<PathOptions>;
+  atomic: Required<AtomicOptions> | false;
+  dedupe: Required<DedupeOptions> | false;
+  scope: Required<ScopeOptions> | false;
+  output: Required<OutputOptions>;
 }
 
-interface Style {
+export interface Style {
   selector: string,
-  props: string[]
+  props: string[],
+  context?: string[]
+}
+
+export interface HtmlDocument {
+  file?: string;
+  html: string;
+}
+
+export interface ExtractWarning {
+  text: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface Origin {
+  description: string;
+  source: Source;
+}
+
+export interface StyleOrigin {
+  rule: Origin;
+  props: Map<string, Origin>;
+}
+
+export type SkipReason = 'template' | 'not-included' | 'excluded' | 'kept' | 'interpolation' | 'no-selector';
+
+export interface ElementReport extends SelectorNode {
+  file?: string;
+  line: number;
+  column: number;
+}
+
+export interface ExtractedElement extends ElementReport {
+  selector: string;
+  props: string[];
+}
+
+export interface SkippedElement extends ElementReport {
+  reason: SkipReason;
+}
+
+export interface RedundantDeclaration extends ElementReport {
+  selector: string;
+  prop: string;
+  rule: string;
+}
+
+export interface AtomicElement {
+  file?: string;
+  index: number;
+  element: string;
+  classes: string[];
+}
+
+export interface ExtractResult {
+  styles: Style[];
+  origins: Map<Style, StyleOrigin>;
+  html: string;
+  documents: HtmlDocument[];
+  elements: ExtractedElement[];
+  skipped: SkippedElement[];
+  atomic: AtomicElement[];
+  redundant: RedundantDeclaration[];
+  warnings: ExtractWarning[];
+}
+
+export interface PagesOptions extends Omit<PluginOptions, 'html' | 'files' | 'cwd' | 'mode'> {
+  minPages?: number;
+  sharedFile?: string;
+  fileName?: (page: string) => string;
+}
+
+export interface PageResult {
+  file: string;
+  html: string;
+  styles: Style[];
+}
+
+export interface PagesResult {
+  shared: Style[];
+  pages: Record<string, PageResult>;
+  manifest: Record<string, string[]>;
+  origins: Map<Style, StyleOrigin>;
+  warnings: ExtractWarning[];
+}
+
+/**
+ * SVG presentation attributes that are converted to declarations when `svg` is enabled.
+ * Attributes whose values are not valid CSS as written, such as a unitless `font-size`, are left out.
+ */
+const presentationAttributes = [
+  'clip-path', 'clip-rule', 'color', 'display', 'dominant-baseline', 'fill', 'fill-opacity', 'fill-rule', 'filter',
+  'flood-color', 'flood-opacity', 'font-family', 'font-style', 'font-weight', 'lighting-color', 'marker-end',
+  'marker-mid', 'marker-start', 'mask', 'opacity', 'paint-order', 'shape-rendering', 'stop-color', 'stop-opacity',
+  'stroke', 'stroke-dasharray', 'stroke-dashoffset', 'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit',
+  'stroke-opacity', 'stroke-width', 'text-anchor', 'vector-effect', 'visibility'
+];
+
+interface Entry {
+  prop: string;
+  origin: Origin;
+}
+
+interface ExtractState {
+  styles: Style[];
+  origins: Map<Style, StyleOrigin>;
+  names: Map<string, string>;
+  elements: ExtractedElement[];
+  skipped: SkippedElement[];
+  atomic: AtomicElement[];
+  redundant: RedundantDeclaration[];
+  warnings: ExtractWarning[];
+  existing: Style[];
+  merged: Set<Style>;
+  documents: HTMLElement[];
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
 }
 
+/**
+ * Fills in the default values of the output options.
+ * @param output - The output options passed by the user.
+ * @returns The output options with all default values applied.
+ */
+const resolveOutput = (output: OutputOptions | undefined): Required<OutputOptions> => {
+  return {
+    tabs: output?.tabs ?? false,
+    declarationOrder: output?.declarationOrder ?? 'sorted',
+    ruleOrder: output?.ruleOrder ?? 'source',
+    layout: output?.layout ?? 'expanded',
+    comments: output?.comments ?? false
+  };
+};
+
+/**
+ * Checks that a prefix of generated class names can start a class name, as the class selectors would be invalid otherwise.
+ * @param prefix - The prefix.
+ * @param option - The name of the option, used in the error message.
+ * @returns The prefix.
+ */
+const checkPrefix = (prefix: string, option: string) => {
+  if (prefix && !/^(-?[a-zA-Z_\u0080-\uFFFF]|--)[\w\u0080-\uFFFF-]*$/.test(prefix)) {
+    throw new Error(`Invalid ${option} "${prefix}", expected the start of a class name, e.g. "u-"`);
+  }
+  return prefix;
+};
+
+/**
+ * Fills in the default values of the plugin options.
+ * @param opts - The options passed by the user.
+ * @returns The options with all default values applied.
+ */
+export const resolveOptions = (opts: PluginOptions | undefined): ResolvedOptions => {
+  return {
+    html: opts?.html ?? '',
+    files: typeof opts?.files === 'string' ? [opts.files] : opts?.files ?? [],
+    cwd: resolve(opts?.cwd ?? '.'),
+    selector: opts?.selector ?? 'class',
+    hash: {
+      prefix: checkPrefix(opts?.hash?.prefix ?? '', 'hash prefix'),
+      length: typeof opts?.hash?.length === 'number' && opts.hash.length > 0 ? Math.floor(opts.hash.length) : 6,
+      path: opts?.hash?.path ?? false
+    },
+    path: {
+      maxDepth: typeof opts?.path?.maxDepth === 'number' && opts.path.maxDepth > 0 ? Math.floor(opts.path.maxDepth) : 5
+    },
+    atomic: opts?.atomic ? { apply: (typeof opts.atomic === 'object' ? opts.atomic.apply : undefined) ?? true } : false,
+    dedupe: opts?.dedupe ?? true ? { factor: (typeof opts?.dedupe === 'object' ? opts.dedupe.factor : undefined) ?? false } : false,
+    collapse: opts?.collapse ?? false,
+    prefix: checkPrefix(opts?.prefix ?? '', 'prefix'),
+    scope: typeof opts?.scope === 'string'
+      ? opts.scope.trim() ? { selector: opts.scope.trim(), rule: false } : false
+      : opts?.scope?.selector.trim() ? { selector: opts.scope.selector.trim(), rule: opts.scope.rule ?? false } : false,
+    layer: opts?.layer?.trim() ?? '',
+    specificity: opts?.specificity ?? 'none',
+    templates: opts?.templates ?? true,
+    include: typeof opts?.include === 'string' ? [opts.include] : opts?.include ?? [],
+    exclude: typeof opts?.exclude === 'string' ? [opts.exclude] : opts?.exclude ?? [],
+    keepAttribute: opts?.keepAttribute ?? 'data-inline-keep',
+    states: opts?.states ?? {},
+    skipExisting: opts?.skipExisting ?? false,
+    strict: opts?.strict ?? false,
+    svg: opts?.svg ?? false,
+    interpolation: opts?.interpolation ?? /\{\{[\s\S]*?\}\}|\{%[\s\S]*?%\}|<%[\s\S]*?%>|\$\{[\s\S]*?\}/,
+    styleTags: opts?.styleTags ?? false,
+    indent: typeof opts?.indent === 'number' && opts.indent > 0 ? opts.indent : 2,
+    output: resolveOutput(opts?.output),
+    mode: opts?.mode ?? 'replace',
+    conflict: opts?.conflict ?? 'last'
+  };
+};
+
 /**
  * Formats a class selector.
  * @param selector - The selector to format.
@@ -50,42 +337,287 @@ const formatSelector = (selector: string) => {
 };
 
 /**
- * Formats style properties into an array.
- * @param props - The style properties to format.
- * @returns An array of formatted style properties.
+ * Splits a style attribute into declaration strings at top-level semicolons.
+ * Semicolons inside strings, comments, parentheses and blocks are not treated as separators.
+ * @param style - The style attribute value.
+ * @returns The declaration strings and their offsets within the attribute value.
+ */
+const splitDeclarations = (style: string) => {
+  const list: { text: string; offset: number }[] = [];
+  let quote = '';
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < style.length; i++) {
+    const c = style.charAt(i);
+
+    if (c === '\\') {
+      i++;
+    } else if (quote) {
+      quote = c === quote ? '' : quote;
+    } else if (c === '/' && style.charAt(i + 1) === '*') {
+      const end = style.indexOf('*/', i + 2);
+      i = end < 0 ? style.length : end + 1;
+    } else if (c === '"' || c === '\'') {
+      quote = c;
+    } else if (c === '(' || c === '[' || c === '{') {
+      depth++;
+    } else if (c === ')' || c === ']' || c === '}') {
+      depth = Math.max(depth - 1, 0);
+    } else if (c === ';' && !depth) {
+      list.push({ text: style.slice(start, i), offset: start });
+      start = i + 1;
+    }
+  }
+  list.push({ text: style.slice(start), offset: start });
+  return list;
+};
+
+/**
+ * Converts a declaration node into a property string, keeping comments and the `!important` flag as written.
+ * @param decl - The declaration to convert.
+ * @returns The property string, e.g. `color: red`.
+ */
+export const stringifyDecl = (decl: Declaration) => {
+  const comment = decl.raws.between?.slice(decl.raws.between.indexOf(':') + 1).trim();
+  const value = decl.raws.value?.value === decl.value ? decl.raws.value.raw : decl.value;
+  const important = decl.important ? decl.raws.important ?? ' !important' : '';
+
+  return `${decl.prop}: ${comment ? `${comment} ` : ''}${value}${important}`;
+};
+
+/**
+ * Parses a style attribute into an array of properties.
+ * Each declaration is parsed with the PostCSS parser; malformed declarations, rules and at-rules are reported and skipped.
+ * @param props - The style attribute value.
+ * @param locate - The callback to get the origin of a range of the attribute value.
+ * @param warn - The callback to report malformed declarations.
+ * @returns An array of properties sorted by property string.
  */
-const formatProps = (props: string | undefined) => {
-  return props?.split(';').reduce((list: string[], prop) => {
-    if (prop.trim()) {
-      list.push(prop.split(':').map(kv => kv.trim()).join(': '));
+const formatProps = (props: string | undefined, locate: (start: number, end: number) => Origin, warn: (text: string, origin: Origin) => void) => {
+  return splitDeclarations(props || '').reduce((list: Entry[], { text, offset }) => {
+    const prop = text.trim();
+    const start = offset + text.indexOf(prop);
+
+    if (prop) {
+      try {
+        const root = parse(`a{${text}}`);
+        const rule = root.first;
+
+        if (root.nodes.length > 1 || rule?.type !== 'rule') {
+          throw new Error('Unexpected block');
+        }
+        for (const node of rule.nodes) {
+          // Offsets in the parsed node are shifted by the `a{` wrapper
+          const origin = locate(offset + (node.source?.start?.offset ?? 2) - 2, offset + (node.source?.end?.offset ?? 2) - 2);
+
+          if (node.type === 'decl' && (node.value || node.variable)) {
+            list.push({ prop: stringifyDecl(node), origin });
+          } else if (node.type === 'decl') {
+            warn(`Missing value of declaration "${prop}"`, origin);
+          } else if (node.type !== 'comment') {
+            // Rules and at-rules are not allowed in style attributes
+            warn(`Malformed declaration "${node.toString()}"`, origin);
+          }
+        }
+      } catch (e) {
+        warn(`Malformed declaration "${prop}"`, locate(start, start + prop.length));
+      }
     }
     return list;
-  }, []).sort() || [];
+  }, []);
+};
+
+/**
+ * Computes a 53-bit hash of a string (cyrb53).
+ * @param str - The string to hash.
+ * @param seed - The seed of the hash.
+ * @returns The hash value.
+ */
+const hashString = (str: string, seed: number) => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+
+  for (let i = 0; i < str.length; i++) {
+    const c = str.charCodeAt(i);
+
+    h1 = Math.imul(h1 ^ c, 2654435761);
+    h2 = Math.imul(h2 ^ c, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+/**
+ * Builds the path of an element from the document root, e.g. `html:1>body:1>div:2`.
+ * @param el - The element.
+ * @returns The path of the element.
+ */
+const elementPath = (el: HTMLElement) => {
+  const path: string[] = [];
+
+  for (let node: HTMLElement | null = el; node?.parentNode; node = node.parentNode) {
+    path.unshift(`${node.rawTagName.toLowerCase()}:${node.parentNode.children.indexOf(node) + 1}`);
+  }
+  return path.join('>');
+};
+
+/**
+ * Generates a hash name derived from the given key.
+ * The name is checked against the names generated so far, and a different seed is used on collision.
+ * If collisions persist, the name is lengthened so that the search always terminates.
+ * @param key - The content the name is derived from.
+ * @param hash - The hash options.
+ * @param names - The names generated so far, mapped to their keys.
+ * @returns The generated name.
+ */
+const generateHash = (key: string, hash: Required<HashOptions>, names: Map<string, string>) => {
+  for (let seed = 0; ; seed++) {
+    const length = hash.length + Math.floor(seed / 16);
+    let value = '';
+
+    for (let i = seed; value.length < length; i += 0x10000) {
+      value += hashString(key, i).toString(36);
+    }
+    value = value.slice(0, length);
+    if (!hash.prefix && /^\d/.test(value)) {
+      value = `${'abcdefghij'.charAt(Number(value.charAt(0)))}${value.slice(1)}`;
+    }
+
+    const name = `${hash.prefix}${value}`;
+    const owner = names.get(name);
+
+    if (owner === undefined || owner === key) {
+      names.set(name, key);
+      return name;
+    }
+  }
+};
+
+/**
+ * Builds the compound selector of a single element for a structural path.
+ * Elements with an ID are referenced by it; otherwise the tag name is combined with the classes,
+ * and `:nth-of-type` is added when siblings share the tag name.
+ * IDs and classes that are not plain identifiers are left out, so the selector never needs escaping.
+ * @param el - The element.
+ * @returns The compound selector of the element.
+ */
+const pathSegment = (el: HTMLElement) => {
+  const identifier = /^-?[_a-zA-Z][\w-]*$/;
+  const id = el.attributes.id?.trim() ?? '';
+
+  if (identifier.test(id)) {
+    return `#${id}`;
+  }
+
+  const tag = el.rawTagName.toLowerCase();
+  const classes = (el.attributes.class ?? '').split(/\s+/).filter(c => identifier.test(c));
+  const siblings = el.parentNode.children.filter(child => child.rawTagName.toLowerCase() === tag);
+  const nth = siblings.length > 1 ? `:nth-of-type(${siblings.indexOf(el) + 1})` : '';
+
+  return `${tag}${classes.map(c => `.${c}`).join('')}${nth}`;
+};
+
+/**
+ * Generates a structural selector from the position of an element in the document,
+ * e.g. `#main > ul > li:nth-of-type(2)`.
+ * Ancestors are added one at a time until the selector matches only the element in the document,
+ * and no element of the other documents extracted into the same stylesheet.
+ * @param el - The element to generate a selector for.
+ * @param document - The root of the parsed document.
+ * @param documents - The roots of all documents extracted into the same stylesheet.
+ * @param maxDepth - The maximum number of elements in the path.
+ * @returns The generated selector, or an empty string if no unique selector is found within the maximum depth.
+ */
+const generatePath = (el: HTMLElement, document: HTMLElement, documents: HTMLElement[], maxDepth: number) => {
+  const segments: string[] = [];
+
+  for (let node: HTMLElement | null = el; node?.parentNode && segments.length < maxDepth; node = node.parentNode) {
+    segments.unshift(pathSegment(node));
+
+    const selector = segments.join(' > ');
+    const matches = document.querySelectorAll(selector);
+
+    if (matches.length === 1 && matches[0] === el && documents.every(other => other === document || !other.querySelector(selector))) {
+      return selector;
+    }
+  }
+  return '';
+};
+
+/**
+ * Describes an element for a selector function.
+ * @param el - The element to describe.
+ * @returns The tag name and a copy of the attributes of the element.
+ */
+const selectorNode = (el: HTMLElement): SelectorNode => {
+  return { tagName: el.rawTagName.toLowerCase(), attributes: { ...el.attributes } };
+};
+
+/**
+ * Calls a selector function with a description of the element.
+ * @param fn - The selector function.
+ * @param el - The element to generate a selector for.
+ * @param props - The style properties of the element.
+ * @param index - The index of the element among the styled elements of the document.
+ * @returns The selector returned by the function, or an empty string if it returned `null`.
+ */
+const callSelector = (fn: SelectorFunction, el: HTMLElement, props: string[], index: number) => {
+  const ancestors: SelectorNode[] = [];
+
+  for (let node = el.parentNode; node?.parentNode; node = node.parentNode) {
+    ancestors.push(selectorNode(node));
+  }
+
+  const name: unknown = fn({ ...selectorNode(el), ancestors, props: [...props], index });
+
+  if (name !== null && typeof name !== 'string') {
+    throw new Error(`Selector function returned ${typeof name} instead of a string or null`);
+  }
+  return name?.trim() ?? '';
 };
 
 /**
- * Generates a selector based on class, ID, or a random hash.
- * @param className - The class name to use in the selector.
- * @param id - The ID to use in the selector.
- * @param selector - The type of selector to generate.
+ * Generates a selector based on class, ID, the element's position in the document, a content-based hash,
+ * or a selector function.
+ * The selector strategies are tried in order, and the first one that yields a selector is used.
+ * @param el - The element to generate a selector for.
+ * @param props - The style properties of the element.
+ * @param index - The index of the element among the styled elements of the document.
+ * @param options - The options for extracting styles.
+ * @param names - The hash names generated so far, mapped to their keys.
+ * @param document - The root of the parsed document.
+ * @param documents - The roots of all documents extracted into the same stylesheet.
+ * @param states - The declarations of the element's states, prefixed with their context, which are part of the hash.
  * @returns The generated selector.
  */
-const generateSelector = (className: string, id: string, selector: SelectorType | SelectorType[]) => {
-  const template = /^\d/;
-  const generateHash = () => {
-    let hash = '';
+const generateSelector = (
+  el: HTMLElement,
+  props: string[],
+  index: number,
+  options: ResolvedOptions,
+  names: Map<string, string>,
+  document: HTMLElement,
+  documents: HTMLElement[],
+  states: string[] = []
+) => {
+  const { selector, hash, path, prefix } = options;
+  const content = props.concat(states).join(';');
+  const key = hash.path ? `${elementPath(el)}{${content}}` : content;
 
-    do {
-      hash = Math.random().toString(36).slice(2);
-    } while (template.test(hash));
-    return hash;
-  };
+  for (const type of Array.isArray(selector) ? selector : [selector]) {
+    const name = typeof type === 'function' ?
+      callSelector(type, el, props, index) : type === 'class' ?
+        formatClass(el.attributes.class || '').replace(/\./g, `.${prefix}`) : type === 'id' ?
+          formatId(el.attributes.id || '') : type === 'path' ?
+            generatePath(el, document, documents, path.maxDepth) : `.${prefix}${generateHash(key, hash, names)}`;
 
-  return (Array.isArray(selector) ? selector : [selector]).reduce((name, type) => {
-    return name || type === 'class' ?
-      formatClass(className || '') : type === 'id' ?
-        formatId(id || '') : `.${generateHash()}`;
-  }, '');
+    if (name) {
+      return name;
+    }
+  }
+  return '';
 };
 
 /**
@@ -94,91 +626,1256 @@ const generateSelector = (className: string, id: string, selector: SelectorType
  * @param selector2 - The second selector to compare.
  * @returns True if the selectors are equivalent, false otherwise.
  */
-const compareSelector = (selector1: string, selector2: string) => {
+export const compareSelector = (selector1: string, selector2: string) => {
   return /[\s>+~(),]/.test(selector1) || /[\s>+~(),]/.test(selector2)
     ? selector1 === selector2
     : selector1.split('.').sort().join('.') === selector2.split('.').sort().join('.');
 };
 
 /**
- * Merges two sets of properties, ensuring no duplicates and sorting the result.
+ * Gets the property name of a property string.
+ * @param prop - The property string, e.g. `color: red`.
+ * @returns The property name, e.g. `color`.
+ */
+export const propName = (prop: string) => {
+  const name = prop.slice(0, prop.indexOf(':')).trim();
+
+  return name.startsWith('--') ? name : name.toLowerCase();
+};
+
+/**
+ * Gets the value of a property string without its `!important` flag.
+ * @param prop - The property string, e.g. `color: red !important`.
+ * @returns The value, e.g. `red`.
+ */
+const propValue = (prop: string) => {
+  return prop.slice(prop.indexOf(':') + 1).replace(/!\s*important\s*$/i, '').trim();
+};
+
+/**
+ * Checks whether a property string carries the `!important` flag.
+ * @param prop - The property string, e.g. `color: red !important`.
+ * @returns True if the property is important, false otherwise.
+ */
+const isImportant = (prop: string) => {
+  return /!\s*important\s*$/i.test(prop);
+};
+
+/**
+ * Lists the names of the properties a property belongs to: itself, the names it extends such as `border` and `border-top`
+ * for `border-top-color`, and the shorthands setting it.
+ * @param name - The property name.
+ * @returns The property names.
+ */
+const propAncestors = (name: string) => {
+  const prefixes: string[] = [];
+
+  for (let index = name.indexOf('-', 1); index > 0; index = name.indexOf('-', index + 1)) {
+    prefixes.push(name.slice(0, index));
+  }
+  return [name, ...prefixes, ...shorthandsOf(name)];
+};
+
+/**
+ * Checks whether two property names affect each other, e.g. a shorthand and one of its longhands.
+ * @param name1 - The first property name.
+ * @param name2 - The second property name.
+ * @returns True if the properties are the same, one is a prefix of the other, or one is a shorthand setting the other, false otherwise.
+ */
+const relatedProps = (name1: string, name2: string) => {
+  return propAncestors(name1).includes(name2) || propAncestors(name2).includes(name1);
+};
+
+/**
+ * Sorts properties by property string, keeping the order of related properties such as a shorthand and its longhands,
+ * since reordering them would change which value applies.
+ * @param items - The items to sort.
+ * @param getProp - The callback to get the property string of an item.
+ * @returns The sorted items.
+ */
+const sortProps = <T>(items: T[], getProp: (item: T) => string) => {
+  const props = items.map(getProp);
+  const following = items.map((): number[] => []);
+  const waiting = items.map(() => 0);
+  const byName = new Map<string, number[]>();
+  const byAncestor = new Map<string, number[]>();
+  const register = (map: Map<string, number[]>, key: string, index: number) => {
+    const list = map.get(key);
+
+    if (list) {
+      list.push(index);
+    } else {
+      map.set(key, [index]);
+    }
+  };
+
+  // Each item waits for the related items before it
+  props.forEach((prop, index) => {
+    const name = propName(prop);
+    const ancestors = propAncestors(name);
+    const before = new Set([...byAncestor.get(name) ?? [], ...ancestors.reduce((list: number[], ancestor) => list.concat(byName.get(ancestor) ?? []), [])]);
+
+    before.forEach(other => following[other]?.push(index));
+    waiting[index] = before.size;
+    register(byName, name, index);
+    ancestors.forEach(ancestor => register(byAncestor, ancestor, index));
+  });
+
+  const compare = (a: number, b: number) => {
+    const prop1 = props[a] ?? '';
+    const prop2 = props[b] ?? '';
+
+    return prop1 < prop2 ? -1 : prop1 > prop2 ? 1 : a - b;
+  };
+  const ready = props.map((_, index) => index).filter(index => !waiting[index]).sort(compare);
+  const sorted: T[] = [];
+
+  for (let index = ready.shift(); index !== undefined; index = ready.shift()) {
+    sorted.push(items[index] as T);
+    for (const next of following[index] ?? []) {
+      waiting[next] = (waiting[next] ?? 0) - 1;
+      if (!waiting[next]) {
+        const position = ready.findIndex(other => compare(next, other) < 0);
+
+        ready.splice(position < 0 ? ready.length : position, 0, next);
+      }
+    }
+  }
+  return sorted;
+};
+
+/**
+ * Merges two sets of properties as if the second set were declared after the first one.
+ * A property overrides earlier declarations of the same property and of its longhands, e.g. `margin` overrides `margin-top`,
+ * while a longhand following its shorthand is kept after it. An `!important` declaration takes precedence regardless of order.
+ * With the `'first'` conflict policy, the second set is treated as declared before the first one instead.
  * @param props1 - The first set of properties.
  * @param props2 - The second set of properties.
- * @returns A sorted array of merged properties.
+ * @param conflict - The conflict policy; `'first'` keeps the properties from the first set, otherwise the second set wins.
+ * @param onConflict - The callback invoked for each conflicting pair of properties, with the property from the first set first.
+ * @returns An array of merged properties, in the order in which they first appear.
  */
-const mergeProps = (props1: string[], props2: string[]) => {
+export const mergeProps = (
+  props1: string[],
+  props2: string[],
+  conflict: ConflictPolicy = 'last',
+  onConflict?: (prev: string, next: string) => void
+) => {
   const props = props1.slice();
+  const later = conflict !== 'first';
+  const wins = (prop: string, other: string) => isImportant(prop) === isImportant(other) ? later : isImportant(prop);
 
   for (const prop of props2) {
-    if (props.indexOf(prop) < 0) {
-      props.push(prop);
+    const name = propName(prop);
+    const index = props.findIndex(value => propName(value) === name);
+    const covered = props.filter(value => propName(value) === name || overrides(name, propName(value)));
+    const covering = props.filter(value => overrides(propName(value), name));
+    // The property is dropped when the same property or a shorthand setting it takes precedence
+    const winner = [...covered.filter(value => propName(value) === name), ...covering].find(value => !wins(prop, value));
+
+    if (winner !== undefined) {
+      if (winner !== prop) {
+        onConflict?.(winner, prop);
+      }
+      continue;
+    }
+
+    const position = props.slice(0, Math.max(index, 0)).filter(value => !covered.includes(value) || !wins(prop, value)).length;
+
+    for (const value of covered.filter(other => wins(prop, other))) {
+      if (value !== prop) {
+        onConflict?.(value, prop);
+      }
+      props.splice(props.indexOf(value), 1);
     }
+
+    // Keep the property after the shorthands it overrides in part, and before the longhands that override it
+    const lower = Math.max(...covering.map(value => props.indexOf(value) + 1), 0);
+    const upper = Math.min(...covered.map(value => props.indexOf(value)).filter(value => value >= 0), props.length);
+
+    props.splice(Math.max(lower, Math.min(index >= 0 ? position : later ? props.length : upper, upper)), 0, prop);
   }
-  return props.sort();
+  return props;
 };
 
 /**
- * Extracts styles from the provided HTML content based on the specified options.
- * @param options - The options for extracting styles.
- * @returns An array of extracted styles, each with a selector and properties.
+ * Finds the end offset of the start tag beginning at the given offset.
+ * @param html - The HTML content.
+ * @param start - The offset of the opening `<` of the tag.
+ * @returns The offset just past the closing `>` of the start tag.
  */
-export const extractStyles = (options: Required<PluginOptions>) => {
-  const { html, selector, styleTags } = options;
-  const context = htmlParse(html);
-  const result: Style[] = [];
+export const findTagEnd = (html: string, start: number) => {
+  let quote = '';
 
-  for (const el of context.querySelectorAll('[style]')) {
-    const value = generateSelector(el.attributes.class || '', el.attributes.id || '', selector);
+  for (let i = start; i < html.length; i++) {
+    const c = html.charAt(i);
 
-    if (value) {
-      const index = result.findIndex(style => compareSelector(style.selector, value));
+    if (quote) {
+      quote = c === quote ? '' : quote;
+    } else if (c === '"' || c === '\'') {
+      quote = c;
+    } else if (c === '>') {
+      return i + 1;
+    }
+  }
+  return html.length;
+};
 
-      if (index > -1 && result[index]) {
-        result[index].props = mergeProps(result[index].props, formatProps(el.attributes.style));
-      } else {
-        result.push({
-          selector: value,
-          props: formatProps(el.attributes.style)
-        });
-      }
-    }
-  }
-  if (styleTags) {
-    for (const el of context.querySelectorAll('style')) {
-      parse(el.textContent).walkRules(rule => {
-        const value = formatSelector(rule.selector);
-        const props = rule.nodes.filter(node => node.type === 'decl').map(decl => `${decl.prop}: ${decl.value}`);
-        const index = result.findIndex(style => compareSelector(style.selector, value));
-
-        if (index > -1 && result[index]) {
-          result[index].props = mergeProps(result[index].props, props);
-        } else {
-          result.push({
-            selector: value,
-            props
-          });
-        }
-      });
+/**
+ * Creates a regular expression matching the attributes of a start tag.
+ * @returns The regular expression, capturing the leading space, name, equals sign and the value in its quoting styles.
+ */
+const attributePattern = () => {
+  return /(\s+)([^\s"'>/=]+)(?:(\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+};
+
+/**
+ * Finds an attribute in a start tag.
+ * @param tag - The start tag.
+ * @param name - The lowercase name of the attribute.
+ * @returns The offsets of the attribute and its value within the tag, or undefined if the attribute is not found.
+ */
+export const findAttribute = (tag: string, name: string) => {
+  const attr = attributePattern();
+
+  for (let m = attr.exec(tag); m; m = attr.exec(tag)) {
+    if (m[2]?.toLowerCase() === name) {
+      const start = m.index + (m[1] ?? '').length;
+      const end = m.index + m[0].length;
+      const value = m[4] ?? m[5] ?? m[6] ?? '';
+
+      return { start, end, valueStart: end - value.length - (m[6] === undefined && m[3] ? 1 : 0), valueEnd: end - (m[6] === undefined && m[3] ? 1 : 0) };
     }
   }
-  return result;
+  return undefined;
 };
 
 /**
- * Formats the extracted styles into a string of CSS.
- * @param styles - The styles to format.
- * @param indent - The number of spaces to use for indentation.
- * @returns A formatted string of CSS styles.
+ * Extracts the class names of a selector consisting only of classes.
+ * @param selector - The selector to inspect.
+ * @returns The class names, or an empty array if the selector is not a compound class selector.
+ */
+const selectorClasses = (selector: string) => {
+  return /^(\.[^.#\s>+~:[\](),]+)+$/.test(selector) ? selector.slice(1).split('.') : [];
+};
+
+/**
+ * Rewrites a start tag, removing its style attribute and adding the given classes.
+ * @param tag - The original start tag.
+ * @param classes - The class names to add to the class list.
+ * @param remove - The lowercase names of further attributes to remove.
+ * @returns The rewritten start tag.
  */
-export const format = (styles: Style[], indent: number) => {
-  const line = [];
+const rewriteTag = (tag: string, classes: string[], remove: string[] = []) => {
+  let hasClass = false;
+  let unquoted = false;
+  const result = tag.replace(attributePattern(), (match, space: string, name: string, eq?: string, dq?: string, sq?: string, uq?: string, offset?: number) => {
+    const key = name.toLowerCase();
+
+    if (key === 'style' || remove.indexOf(key) >= 0) {
+      // An unquoted value would otherwise run into the end of the tag, e.g. `class=foo/>`
+      return unquoted && /^\s*\/?>$/.test(tag.slice((offset ?? 0) + match.length)) ? ' ' : '';
+    }
+    if (key === 'class') {
+      const list = (dq ?? sq ?? uq ?? '').split(/\s+/).filter(Boolean);
+      const added = classes.filter(c => list.indexOf(c) < 0);
+
+      hasClass = true;
+      if (added.length) {
+        const q = sq === undefined ? '"' : '\'';
 
-  for (const { selector, props } of styles) {
-    line.push(`${selector} {`);
-    for (const prop of props) {
-      line.push(`${''.padStart(indent, ' ')}${prop};`);
+        unquoted = false;
+        return `${space}${name}${eq || '='}${q}${list.concat(added).join(' ')}${q}`;
+      }
     }
-    line.push('}\n');
+    unquoted = uq !== undefined;
+    return match;
+  });
+
+  if (hasClass || !classes.length) {
+    return result;
+  }
+  return result.replace(/(\s*\/?>)$/, ` class="${classes.join(' ')}"$1`);
+};
+
+/**
+ * Applies a list of non-overlapping edits to a string.
+ * @param text - The original string.
+ * @param edits - The edits to apply.
+ * @returns The edited string.
+ */
+const applyEdits = (text: string, edits: Edit[]) => {
+  return edits.slice().sort((a, b) => b.start - a.start).reduce((str, { start, end, text: value }) => {
+    return `${str.slice(0, start)}${value}${str.slice(end)}`;
+  }, text);
+};
+
+/**
+ * Compares the at-rule and nesting contexts of two styles.
+ * @param context1 - The first context.
+ * @param context2 - The second context.
+ * @returns True if the contexts are the same, false otherwise.
+ */
+const compareContext = (context1: string[] = [], context2: string[] = []) => {
+  return context1.length === context2.length && context1.every((prelude, i) => prelude === context2[i]);
+};
+
+/**
+ * Creates a warning, locating it at the given source.
+ * @param text - The warning message.
+ * @param source - The source the warning refers to.
+ * @returns The warning.
+ */
+const createWarning = (text: string, source: Source | undefined): ExtractWarning => {
+  const file = source?.input.file;
+  const start = source?.start;
+
+  return { text, ...file ? { file } : {}, ...start ? { line: start.line, column: start.column } : {} };
+};
+
+/**
+ * Raises the specificity of a selector without changing what it matches.
+ * Selectors consisting only of classes and IDs are repeated (`.btn.btn`), other selectors get `:nth-child(n)` appended.
+ * @param selector - The selector or selector list to boost.
+ * @returns The boosted selector.
+ */
+const boostSelector = (selector: string) => {
+  return cssList.comma(selector).map(part => {
+    return /^([.#][^.#\s>+~:[\](),]+)+$/.test(part) ? `${part}${part}` : `${part}:nth-child(n)`;
+  }).join(', ');
+};
+
+/**
+ * Compares two specificities.
+ * @param a - The first specificity.
+ * @param b - The second specificity.
+ * @returns A positive number if the first one is higher, a negative number if it is lower, or 0 if they are equal.
+ */
+const compareSpecificity = (a: [number, number, number], b: [number, number, number]) => {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+};
+
+/**
+ * Calculates the specificity of a selector, taking the highest specificity of a selector list.
+ * The arguments of `:not()`, `:is()` and `:has()` count as part of the selector, and `:where()` counts as nothing.
+ * @param selector - The selector.
+ * @returns The numbers of ID selectors, of class, attribute and pseudo-class selectors, and of type and pseudo-element selectors.
+ */
+const specificityOf = (selector: string): [number, number, number] => {
+  return cssList.comma(selector).map(part => {
+    const simple = part.replace(/:where\([^)]*\)/gi, '').replace(/(:nth-[\w-]+)\([^)]*\)/gi, '$1').replace(/\[[^\]]*\]/g, '.attribute').replace(/:(not|is|has)\(/gi, '(');
+    const count = (pattern: RegExp) => simple.match(pattern)?.length ?? 0;
+
+    return [
+      count(/#[^\s.#:[>+~()]+/g),
+      count(/\.[^\s.#:[>+~()]+/g) + count(/(^|[^:]):[\w-]+/g),
+      count(/(^|[\s>+~(])[a-z][\w-]*/gi) + count(/::[\w-]+/g)
+    ] as [number, number, number];
+  }).reduce((max, value) => compareSpecificity(value, max) > 0 ? value : max, [0, 0, 0]);
+};
+
+/**
+ * Checks whether an existing declaration guarantees the value of an extracted one.
+ * @param existing - The existing property string.
+ * @param extracted - The extracted property string.
+ * @returns True if both set the same property to the same value, and the existing one is `!important` if the extracted one is.
+ */
+const guaranteesProp = (existing: string, extracted: string) => {
+  const normalize = (prop: string) => propValue(prop).replace(/\s+/g, ' ');
+
+  return propName(existing) === propName(extracted) && normalize(existing) === normalize(extracted) && (isImportant(existing) || !isImportant(extracted));
+};
+
+/**
+ * Adds a style to the list, merging its properties into an existing style with an equivalent selector in the same context.
+ * At-rules with declarations (e.g. `@font-face`) are never merged, but exact duplicates are skipped.
+ * @param state - The state holding the list of styles.
+ * @param selector - The selector of the style.
+ * @param entries - The properties of the style.
+ * @param origin - The origin of the style.
+ * @param options - The options for extracting styles.
+ * @param context - The at-rule and nesting context of the style.
+ */
+const addStyle = (state: ExtractState, selector: string, entries: Entry[], origin: Origin, options: ResolvedOptions, context: string[] = []) => {
+  const { conflict } = options;
+  const props = entries.map(({ prop }) => prop);
+  const atRule = selector.startsWith('@');
+  const existing = state.styles.find(style => compareContext(style.context, context) && (atRule
+    ? style.selector === selector && style.props.join(';') === props.join(';')
+    : compareSelector(style.selector, selector)));
+  const style = existing ?? (context.length ? { selector, props, context } : { selector, props });
+  const origins = state.origins.get(style) ?? { rule: origin, props: new Map<string, Origin>() };
+
+  if (existing && !atRule) {
+    existing.props = mergeProps(existing.props, props, conflict, (prev, next) => {
+      const source = entries.find(({ prop }) => prop === next)?.origin;
+      const text = `Conflicting declarations in ${existing.selector}: "${prev}" (${origins.props.get(propName(prev))?.description}) and "${next}" (${source?.description})`;
+
+      if (conflict === 'error') {
+        throw new Error(text);
+      }
+      if (conflict === 'warn') {
+        state.warnings.push(createWarning(text, source?.source));
+      }
+    });
+    state.merged.add(existing);
+  } else if (!existing) {
+    state.styles.push(style);
+    state.origins.set(style, origins);
+  }
+  for (const entry of entries) {
+    if (conflict !== 'first' || !origins.props.has(propName(entry.prop))) {
+      origins.props.set(propName(entry.prop), entry.origin);
+    }
+  }
+};
+
+/**
+ * Describes an element for use in messages, e.g. `<div id="main" class="box">`.
+ * @param el - The element to describe.
+ * @returns The description of the element.
+ */
+const describeElement = (el: HTMLElement) => {
+  const attrs = ['id', 'class'].filter(name => el.attributes[name]).map(name => ` ${name}="${el.attributes[name]}"`);
+
+  return `<${el.rawTagName.toLowerCase()}${attrs.join('')}>`;
+};
+
+/**
+ * Extracts the rules of a parsed `<style>` block, keeping their at-rule and nesting context.
+ * At-rules without a body (e.g. `@import`) are skipped.
+ * @param container - The container whose child nodes are extracted.
+ * @param context - The at-rule and nesting context of the container.
+ * @param state - The state holding the list of styles.
+ * @param locate - The callback to get the origin of a parsed node.
+ * @param options - The options for extracting styles.
+ */
+const extractBlock = (container: Container, context: string[], state: ExtractState, locate: (node: ChildNode) => Origin, options: ResolvedOptions) => {
+  container.each(node => {
+    if (node.type !== 'rule' && node.type !== 'atrule' || !node.nodes) {
+      return;
+    }
+
+    const selector = node.type === 'rule' ? formatSelector(node.selector) : `@${node.name}${node.params ? ` ${node.params}` : ''}`;
+    const entries = node.nodes.filter(child => child.type === 'decl').map(decl => ({ prop: stringifyDecl(decl), origin: locate(decl) }));
+
+    if (entries.length || node.type === 'rule' && !node.nodes.some(child => child.type === 'rule' || child.type === 'atrule')) {
+      addStyle(state, selector, entries, locate(node), options, context);
+    }
+    extractBlock(node, context.concat(selector), state, locate, options);
+  });
+};
+
+/**
+ * Converts an offset in the input into a position.
+ * @param input - The input.
+ * @param offset - The offset.
+ * @returns The position with line and column numbers.
+ */
+const toPosition = (input: Input, offset: number): Position => {
+  const { line, col } = input.fromOffset(offset) ?? { line: 1, col: offset + 1 };
+
+  return { line, column: col, offset };
+};
+
+/**
+ * Creates a source covering a range of the input.
+ * @param input - The input.
+ * @param start - The start offset of the range.
+ * @param end - The end offset of the range, exclusive.
+ * @returns The source, with an inclusive end position as in PostCSS.
+ */
+export const toSource = (input: Input, start: number, end: number): Source => {
+  return { input, start: toPosition(input, start), end: { ...toPosition(input, Math.max(end - 1, start)), offset: Math.max(end, start) } };
+};
+
+/**
+ * Checks whether the styles of an element are extracted.
+ * Elements are skipped when they or one of their ancestors match an `exclude` selector or carry the keep attribute,
+ * or when `include` selectors are given and neither the element nor one of its ancestors matches them.
+ * @param el - The element.
+ * @param options - The options for extracting styles.
+ * @returns The reason the element is left untouched, or undefined if it is extracted.
+ */
+const skipReason = (el: HTMLElement, options: ResolvedOptions): SkipReason | undefined => {
+  const { templates, include, exclude, keepAttribute } = options;
+
+  if (!templates && el.closest('template')) {
+    return 'template';
+  }
+  if (include.length && !include.some(selector => el.closest(selector))) {
+    return 'not-included';
+  }
+  if (exclude.some(selector => el.closest(selector))) {
+    return 'excluded';
+  }
+  return keepAttribute && el.closest(`[${keepAttribute}]`) ? 'kept' : undefined;
+};
+
+/**
+ * Lists the SVG presentation attributes of an element that are converted to declarations.
+ * Attributes containing template interpolation are left in place.
+ * @param el - The element.
+ * @param options - The options for extracting styles.
+ * @returns The names of the attributes to convert, or an empty array if `svg` is disabled or the element is not part of an SVG.
+ */
+const presentationProps = (el: HTMLElement, options: ResolvedOptions) => {
+  if (!options.svg || !el.closest('svg')) {
+    return [];
+  }
+  return presentationAttributes.filter(name => {
+    const value = el.getAttribute(name);
+
+    return value !== undefined && !(options.interpolation && value.match(options.interpolation));
+  });
+};
+
+/**
+ * Finds the elements of a document matched by a selector.
+ * Selectors with pseudo-classes or pseudo-elements match no elements, as they apply only in certain states.
+ * @param selector - The selector, without selector lists.
+ * @param document - The root of the parsed document.
+ * @returns The matched elements.
+ */
+const matchElements = (selector: string, document: HTMLElement) => {
+  if (selector.includes(':')) {
+    return [];
+  }
+  try {
+    return document.querySelectorAll(selector);
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Extracts styles from a single HTML document and rewrites the document accordingly.
+ * @param html - The HTML content.
+ * @param file - The path of the HTML file, if any.
+ * @param options - The options for extracting styles.
+ * @param state - The state shared across documents.
+ * @param context - The root of the parsed document.
+ * @returns The rewritten HTML.
+ */
+const extractDocument = (html: string, file: string | undefined, options: ResolvedOptions, state: ExtractState, context = htmlParse(html)) => {
+  const input = new Input(html, file ? { from: file, map: false } : { map: false });
+  const edits: Edit[] = [];
+  const locate = (description: string, start: number, end: number) => {
+    return { description: file ? `${description} in ${file}` : description, source: toSource(input, start, end) };
+  };
+
+  const stateNames = Object.keys(options.states);
+  const query = ['[style]', ...stateNames.map(name => `[${name}]`), ...options.svg ? ['svg', 'svg *'] : []].join(', ');
+  const { specificity, interpolation: pattern } = options;
+  const layer = specificity === 'layer' ? ['@layer inline'] : [];
+  const boost = (selector: string) => specificity === 'boost' ? boostSelector(selector) : selector;
+  const matched = new Map<string, HTMLElement[]>();
+  // An existing rule guarantees a declaration when its declaration wins the cascade among the rules matching the element
+  // or sharing the extracted selector, with the same value and at least the specificity of the extracted selector
+  const existingRule = (el: HTMLElement, selector: string, prop: string) => {
+    const name = propName(prop);
+    let winner: { rule: Style; value: string; specificity: [number, number, number] } | undefined;
+
+    for (const rule of state.existing) {
+      const parts = cssList.comma(rule.selector).filter(part => {
+        const elements = matched.get(part) ?? matchElements(part, context);
+
+        matched.set(part, elements);
+        return compareSelector(part, selector) || elements.includes(el);
+      });
+      const ruleSpecificity = specificityOf(parts.join(', '));
+
+      // Shorthands setting the property override it as well
+      for (const value of parts.length ? rule.props.filter(other => propName(other) === name || overrides(propName(other), name)) : []) {
+        if (!winner || (isImportant(value) === isImportant(winner.value)
+          ? compareSpecificity(ruleSpecificity, winner.specificity) >= 0
+          : isImportant(value))) {
+          winner = { rule, value, specificity: ruleSpecificity };
+        }
+      }
+    }
+    return winner && guaranteesProp(winner.value, prop) && compareSpecificity(winner.specificity, specificityOf(selector)) >= 0
+      ? winner.rule
+      : undefined;
+  };
+
+  let index = 0;
+
+  for (const el of context.querySelectorAll(query)) {
+    const [start] = el.range;
+    const style = el.getAttribute('style');
+    const presentation = presentationProps(el, options);
+    const states = stateNames.filter(name => el.getAttribute(name) !== undefined);
+
+    if (style === undefined && !presentation.length && !states.length) {
+      continue;
+    }
+
+    const { line, column } = toPosition(input, start);
+    const report: ElementReport = { tagName: el.rawTagName.toLowerCase(), attributes: { ...el.attributes }, ...file ? { file } : {}, line, column };
+    const reason = skipReason(el, options);
+
+    if (reason) {
+      state.skipped.push({ ...report, reason });
+      continue;
+    }
+
+    const end = findTagEnd(html, start);
+    const tag = html.slice(start, end);
+    const description = describeElement(el);
+    const locateAttribute = (name: string) => {
+      const attr = findAttribute(tag, name) ?? { start: 0, end: 0 };
+
+      return locate(description, start + attr.start, start + attr.end);
+    };
+    const origin = locateAttribute(style === undefined ? presentation[0] ?? states[0] ?? '' : 'style');
+    const [interpolated, interpolation] = ['style', ...states]
+      .map(name => [name, pattern ? el.getAttribute(name)?.match(pattern) : undefined] as const)
+      .find(([, match]) => match) ?? [];
+
+    if (interpolated && interpolation) {
+      state.warnings.push(createWarning(
+        `Skipped ${interpolated} attribute of ${description} containing template interpolation "${interpolation[0]}"`,
+        locateAttribute(interpolated).source
+      ));
+      state.skipped.push({ ...report, reason: 'interpolation' });
+      continue;
+    }
+
+    if (style !== undefined && !style.trim() && !presentation.length) {
+      state.warnings.push(createWarning(`Empty style attribute of ${description}`, origin.source));
+    }
+
+    const attributeProps = (name: string) => {
+      const attr = findAttribute(tag, name) ?? { valueStart: 0, valueEnd: 0 };
+
+      return formatProps(el.getAttribute(name), (from, to) => {
+        // Offsets in the decoded value may exceed the raw value when it contains character references
+        return locate(description, Math.min(start + attr.valueStart + from, start + attr.valueEnd), Math.min(start + attr.valueStart + to, start + attr.valueEnd));
+      }, (text, source) => {
+        state.warnings.push(createWarning(`${text} in ${name} attribute of ${description}`, source.source));
+      });
+    };
+    const finishEntries = (props: Entry[], name: string) => {
+      return (options.output.declarationOrder === 'sorted' ? sortProps(props, entry => entry.prop) : props).map(entry => {
+        if ((specificity === 'important' || specificity === 'layer') && isImportant(entry.prop)) {
+          state.warnings.push(createWarning(
+            `Declaration "${entry.prop}" in ${name} attribute of ${description} is already !important, so its inline precedence cannot be preserved`,
+            entry.origin.source
+          ));
+        }
+        return specificity === 'important' && !isImportant(entry.prop) ? { ...entry, prop: `${entry.prop} !important` } : entry;
+      });
+    };
+    // Adds a style for the element, or for one of its states with a pseudo-class suffix or an at-rule context
+    const addElementStyle = (selector: string, list: Entry[], from: Origin, stateContext = '') => {
+      if (stateContext.startsWith('@')) {
+        addStyle(state, selector, list, from, options, [...layer, stateContext]);
+      } else {
+        addStyle(state, stateContext ? cssList.comma(selector).map(part => `${part}${stateContext}`).join(', ') : selector, list, from, options, layer);
+      }
+    };
+
+    const declared = attributeProps('style');
+    const converted = presentation.reduce((list: Entry[], name) => {
+      const position = findAttribute(tag, name) ?? { start: 0, end: 0 };
+
+      return list.concat(formatProps(`${name}: ${el.getAttribute(name) ?? ''}`, () => locate(description, start + position.start, start + position.end), (text, source) => {
+        state.warnings.push(createWarning(`${text} in ${name} attribute of ${description}`, source.source));
+      }));
+    }, []);
+    // Presentation attributes have a lower precedence than the style attribute
+    const entries = finishEntries([...converted.filter(entry => !declared.some(({ prop }) => propName(prop) === propName(entry.prop))), ...declared], 'style');
+    const stateStyles = states.map(name => ({ context: options.states[name] ?? '', entries: finishEntries(attributeProps(name), name), origin: locateAttribute(name) }));
+    const remove = [...presentation, ...states];
+    // Drops the declarations guaranteed by existing rules, reporting them as redundant
+    const dropRedundant = (selector: string, list: Entry[]) => {
+      return list.filter(entry => {
+        const rule = existingRule(el, selector, entry.prop);
+
+        if (rule) {
+          state.redundant.push({ ...report, selector, prop: entry.prop, rule: rule.selector });
+        }
+        return !rule;
+      });
+    };
+
+    if (options.atomic) {
+      const atomicName = (prop: string, stateContext = '') => {
+        return `${options.prefix}${generateHash(stateContext ? `${stateContext} ${prop}` : prop, options.hash, state.names)}`;
+      };
+      const atomicClass = (entry: Entry, from: Origin, stateContext = '') => {
+        const name = atomicName(entry.prop, stateContext);
+
+        addElementStyle(boost(`.${name}`), [entry], from, stateContext);
+        return name;
+      };
+      // Declarations overridden within the element, e.g. a longhand followed by its shorthand, get no class
+      const merged = mergeProps([], entries.map(({ prop }) => prop));
+      const kept = entries.filter(entry => merged.includes(entry.prop) && dropRedundant(boost(`.${atomicName(entry.prop)}`), [entry]).length);
+      const classes = [
+        ...kept.map(entry => atomicClass(entry, origin)),
+        ...stateStyles.reduce((list: string[], item) => list.concat(item.entries.map(entry => atomicClass(entry, item.origin, item.context))), [])
+      ];
+      const position = (entry: Entry) => state.styles.findIndex(item => !item.context && item.selector === boost(`.${atomicName(entry.prop)}`));
+
+      // Rules of related declarations may have been added in the opposite order by another element
+      kept.forEach((entry, i) => kept.slice(i + 1).forEach(other => {
+        if (relatedProps(propName(entry.prop), propName(other.prop)) && position(entry) > position(other)) {
+          state.warnings.push(createWarning(
+            `Atomic rules of ${description} cannot keep the order of "${entry.prop}" and "${other.prop}", as they were added in the opposite order`,
+            other.origin.source
+          ));
+        }
+      }));
+
+      if (options.atomic.apply) {
+        edits.push({ start, end, text: rewriteTag(tag, classes, remove) });
+      }
+      state.atomic.push({ ...file ? { file } : {}, index: index++, element: description, classes });
+      state.elements.push({ ...report, selector: boost(classes.map(name => `.${name}`).join('')), props: kept.map(({ prop }) => prop) });
+      continue;
+    }
+
+    const stateProps = stateStyles.reduce((list: string[], item) => list.concat(item.entries.map(({ prop }) => `${item.context} ${prop}`)), []);
+    const value = generateSelector(el, entries.map(({ prop }) => prop), index++, options, state.names, context, state.documents, stateProps);
+
+    if (value) {
+      const kept = dropRedundant(boost(value), entries);
+
+      edits.push({ start, end, text: rewriteTag(tag, selectorClasses(value), remove) });
+      // No rule is added when all declarations are redundant
+      if ((style !== undefined || presentation.length) && (kept.length || !entries.length)) {
+        addElementStyle(boost(value), kept, origin);
+      }
+      for (const item of stateStyles.filter(({ entries: list }) => list.length)) {
+        addElementStyle(boost(value), item.entries, item.origin, item.context);
+      }
+      state.elements.push({ ...report, selector: boost(value), props: kept.map(({ prop }) => prop) });
+    } else {
+      state.warnings.push(createWarning(`No selector generated for ${description}, its inline styles were left in place`, origin.source));
+      state.skipped.push({ ...report, reason: 'no-selector' });
+    }
+  }
+  if (options.styleTags) {
+    for (const el of context.querySelectorAll('style').filter(item => !skipReason(item, options))) {
+      const offset = findTagEnd(html, el.range[0]);
+      let root: Root;
+
+      try {
+        root = parse(el.textContent);
+      } catch (e) {
+        const reason = e instanceof CssSyntaxError ? e.reason : e instanceof Error ? e.message : String(e);
+
+        state.warnings.push(createWarning(`Skipped unparsable <style> block: ${reason}`, toSource(input, el.range[0], offset)));
+        continue;
+      }
+      const locateNode = (node: ChildNode) => {
+        return locate('<style>', offset + (node.source?.start?.offset ?? 0), offset + (node.source?.end?.offset ?? 0));
+      };
+      // At-rules without a body, such as `@import`, cannot be extracted, so the top-level ones are kept in the <style> tag
+      const statements: AtRule[] = [];
+
+      root.walkAtRules(node => {
+        if (!node.nodes) {
+          statements.push(node);
+          state.warnings.push(createWarning(
+            `${node.parent === root ? 'Kept' : 'Skipped'} ${node.toString()} in <style> block, as at-rules without a body cannot be extracted`,
+            locateNode(node).source
+          ));
+        }
+      });
+
+      const kept = statements.filter(node => node.parent === root).map(node => `${node.toString()};`).join(' ');
+      const closing = html.slice(html.lastIndexOf('<', el.range[1] - 1), el.range[1]);
+
+      edits.push({ start: el.range[0], end: el.range[1], text: kept ? `${html.slice(el.range[0], offset)}${kept}${closing}` : '' });
+      extractBlock(root, [], state, locateNode, options);
+    }
+  }
+  return applyEdits(html, edits);
+};
+
+/**
+ * Records the origin of a style for a style derived from it.
+ * @param origins - The origins of the styles.
+ * @param style - The original style.
+ * @param derived - The style derived from it.
+ */
+const inheritOrigin = (origins: Map<Style, StyleOrigin>, style: Style, derived: Style) => {
+  const origin = origins.get(style);
+
+  if (origin) {
+    origins.set(derived, origin);
+  }
+};
+
+/**
+ * Moves declarations shared by several rules of the same context into rules with selector lists.
+ * Shared rules are placed before the first rule they were taken from, and rules left without declarations are dropped.
+ * Declarations related to another declaration of the same rule stay in place, so their order within the rule is kept.
+ * @param styles - The styles to factor.
+ * @param origins - The origins of the styles, which are extended with the origins of the new styles.
+ * @returns The factored styles.
+ */
+const factorStyles = (styles: Style[], origins: Map<Style, StyleOrigin>) => {
+  const contextKey = (style: Style) => (style.context ?? []).join('\n');
+  const owners = new Map<string, Style[]>();
+  const factorable = (style: Style, prop: string) => {
+    return !style.selector.startsWith('@') && style.props.every(other => other === prop || !relatedProps(propName(other), propName(prop)));
+  };
+
+  for (const style of styles) {
+    for (const prop of style.props.filter(value => factorable(style, value))) {
+      const key = `${contextKey(style)}\n${prop}`;
+
+      owners.set(key, [...owners.get(key) ?? [], style]);
+    }
+  }
+
+  const result: Style[] = [];
+  const shared = new Map<string, Style>();
+
+  for (const style of styles) {
+    const own: string[] = [];
+
+    for (const prop of style.props) {
+      const list = factorable(style, prop) ? owners.get(`${contextKey(style)}\n${prop}`) ?? [] : [];
+
+      if (list.length < 2) {
+        own.push(prop);
+        continue;
+      }
+
+      const selector = list.map(owner => owner.selector).join(', ');
+      const key = `${contextKey(style)}\n${selector}`;
+      const target = shared.get(key) ?? { ...style, selector, props: [] };
+
+      if (!shared.has(key)) {
+        shared.set(key, target);
+        result.push(target);
+        inheritOrigin(origins, style, target);
+      }
+      if (list[0] === style) {
+        target.props.push(prop);
+      }
+    }
+    if (own.length) {
+      const target = { ...style, props: own };
+
+      result.push(target);
+      inheritOrigin(origins, style, target);
+    }
+  }
+  return result;
+};
+
+/**
+ * Groups rules of the same context with identical declarations into rules with selector lists.
+ * Each group is placed at the position of its first rule, so rules are only grouped when no rule between them sets a related property to another value.
+ * @param styles - The styles to deduplicate.
+ * @param origins - The origins of the styles, which are extended with the origins of the new styles.
+ * @param options - The deduplication options.
+ * @returns The deduplicated styles.
+ */
+export const dedupeStyles = (styles: Style[], origins: Map<Style, StyleOrigin>, options: Required<DedupeOptions>) => {
+  const result: Style[] = [];
+
+  for (const style of options.factor ? factorStyles(styles, origins) : styles) {
+    let target: Style | undefined;
+
+    // Grouping moves the rule up to the last identical one, which is only safe when no rule in between, in any context,
+    // sets a related property to another value
+    for (let i = result.length - 1; i >= 0 && !style.selector.startsWith('@'); i--) {
+      const other = result[i] as Style;
+
+      if (!other.selector.startsWith('@') && compareContext(other.context, style.context) && other.props.join(';') === style.props.join(';')) {
+        target = other;
+        break;
+      }
+      if (other.props.some(prop => !style.props.includes(prop) && style.props.some(own => relatedProps(propName(own), propName(prop))))) {
+        break;
+      }
+    }
+    if (target) {
+      target.selector = `${target.selector}, ${style.selector}`;
+      continue;
+    }
+
+    const copy = { ...style };
+
+    result.push(copy);
+    inheritOrigin(origins, style, copy);
+  }
+  return result;
+};
+
+/**
+ * Scopes the extracted styles and places them in a cascade layer.
+ * With a descendant scope, each selector of a rule is prefixed with the scope selector.
+ * With a scope rule, rules are wrapped in a `@scope` block.
+ * At-rules like `@font-face` and the rules of `@keyframes` are not scoped.
+ * @param styles - The styles to scope.
+ * @param origins - The origins of the styles, which are extended with the origins of the new styles.
+ * @param options - The options for extracting styles.
+ * @returns The scoped styles.
+ */
+const scopeStyles = (styles: Style[], origins: Map<Style, StyleOrigin>, options: ResolvedOptions) => {
+  const { scope, layer } = options;
+
+  return styles.map(style => {
+    const context = style.context ?? [];
+    const scoped = scope && !style.selector.startsWith('@') && !context.some(prelude => /^@(-\w+-)?keyframes\b/i.test(prelude));
+    const selector = scoped && !scope.rule
+      ? cssList.comma(style.selector).map(part => `${scope.selector} ${part}`).join(', ')
+      : style.selector;
+    const outer = [
+      ...layer ? [`@layer ${layer}`] : [],
+      ...scoped && scope.rule ? [`@scope (${scope.selector})`] : []
+    ];
+    if (!outer.length && selector === style.selector) {
+      return style;
+    }
+
+    const copy: Style = { ...style, selector };
+
+    if (outer.length) {
+      copy.context = [...outer, ...context];
+    }
+    inheritOrigin(origins, style, copy);
+    return copy;
+  });
+};
+
+/**
+ * Formats a warning with its location for use in error messages, e.g. `Empty style attribute of <div> (index.html:3:8)`.
+ * @param warning - The warning.
+ * @returns The formatted warning.
+ */
+export const formatWarning = ({ text, file, line, column }: ExtractWarning) => {
+  const location = [file, line, column].filter(value => value !== undefined).join(':');
+
+  return location ? `${text} (${location})` : text;
+};
+
+/**
+ * Collapses complete sets of longhands of a style into their shorthand, e.g. the four `margin-*` longhands into `margin`.
+ * Longhands are only collapsed when they share the same importance and no other declaration of the style is related to the shorthand.
+ * The shorthand takes the place of its first longhand, and the origin of the first longhand with a known origin.
+ * @param style - The style to collapse, which is updated in place.
+ * @param origins - The origins of the styles.
+ */
+const collapseStyle = (style: Style, origins: Map<Style, StyleOrigin>) => {
+  const origin = origins.get(style);
+
+  for (const [shorthand, names] of collapsible) {
+    const parts = names.map(name => style.props.find(prop => propName(prop) === name));
+    const related = style.props.filter(prop => relatedProps(propName(prop), shorthand));
+    const [first] = parts;
+
+    if (first === undefined || parts.some(part => part === undefined || isImportant(part) !== isImportant(first)) || related.length !== parts.length) {
+      continue;
+    }
+
+    const value = shorthandValue(shorthand, parts.map(part => propValue(part ?? '')));
+
+    if (value === undefined) {
+      continue;
+    }
+    style.props = style.props.reduce((list: string[], prop) => {
+      return list.concat(prop === first ? [`${shorthand}: ${value}${isImportant(first) ? ' !important' : ''}`] : parts.includes(prop) ? [] : [prop]);
+    }, []);
+
+    const source = longhands(shorthand).map(name => origin?.props.get(name)).find(Boolean);
+
+    if (source) {
+      origin?.props.set(shorthand, source);
+    }
+  }
+};
+
+/**
+ * Sorts the declarations of the merged styles, once all their sources have been merged,
+ * as the declarations of each element are already sorted when extracted.
+ * @param styles - The extracted styles.
+ * @param merged - The styles whose declarations were merged from several sources, from which the sorted styles are removed.
+ * @param options - The options for extracting styles.
+ */
+const sortMerged = (styles: Style[], merged: Set<Style>, options: ResolvedOptions) => {
+  for (const style of styles.filter(item => merged.has(item))) {
+    if (options.output.declarationOrder === 'sorted') {
+      style.props = sortProps(style.props, prop => prop);
+    }
+    merged.delete(style);
+  }
+};
+
+/**
+ * Sorts, collapses, groups, scopes and orders the extracted styles of a stylesheet.
+ * @param styles - The extracted styles.
+ * @param origins - The origins of the styles.
+ * @param options - The options for extracting styles.
+ * @param merged - The styles whose declarations were merged from several sources.
+ * @returns The styles of the stylesheet.
+ */
+const finishStyles = (styles: Style[], origins: Map<Style, StyleOrigin>, options: ResolvedOptions, merged: Set<Style>) => {
+  sortMerged(styles, merged, options);
+  if (options.collapse) {
+    styles.filter(style => !style.selector.startsWith('@')).forEach(style => collapseStyle(style, origins));
+  }
+
+  const result = scopeStyles(options.dedupe ? dedupeStyles(styles, origins, options.dedupe) : styles, origins, options);
+
+  if (options.output.ruleOrder === 'selector') {
+    result.sort((a, b) => {
+      const key1 = `${(a.context ?? []).join('\n')}\n${a.selector}`;
+      const key2 = `${(b.context ?? []).join('\n')}\n${b.selector}`;
+
+      return key1 < key2 ? -1 : key1 > key2 ? 1 : 0;
+    });
+  }
+  return result;
+};
+
+/**
+ * Throws the first warning as an error in strict mode.
+ * @param warnings - The warnings.
+ * @param options - The options for extracting styles.
+ */
+const checkStrict = (warnings: ExtractWarning[], options: ResolvedOptions) => {
+  const [warning] = warnings;
+
+  if (options.strict && warning) {
+    throw new Error(`${formatWarning(warning)}${warnings.length > 1 ? ` and ${warnings.length - 1} more warning(s)` : ''}`);
+  }
+};
+
+/**
+ * Extracts styles from the provided HTML content and files, and rewrites the HTML accordingly.
+ * Extracted `style` attributes are removed and generated classes are added to the elements' `class` lists.
+ * When `styleTags` is enabled, the extracted `<style>` tags are removed as well.
+ * Styles from all documents are aggregated into a single list, merging equivalent selectors.
+ * In atomic mode, each unique declaration becomes its own class, and the classes of each element are reported.
+ * Unless disabled, rules with identical declarations are then grouped into selector lists,
+ * before the rules are scoped and placed in a cascade layer.
+ * In strict mode, any warning is thrown as an error instead.
+ * @param options - The options for extracting styles.
+ * @param inputs - Further documents to extract from after the `html` option, such as the HTML parsed by the syntax.
+ * @param existing - The rules of the stylesheet being processed, checked for redundant declarations when `skipExisting` is enabled.
+ * @returns The extracted styles, the rewritten HTML documents, the extracted and skipped elements,
+ * the atomic classes of each element, the declarations dropped as redundant and any warnings.
+ */
+export const extract = (options: PluginOptions, inputs: HtmlDocument[] = [], existing: Style[] = []): ExtractResult => {
+  const resolved = resolveOptions(options);
+  const sources = [{ html: resolved.html }, ...inputs, ...readFiles(resolved.files, resolved.cwd)];
+  // All documents are parsed first, as structural selectors have to be unique across them
+  const parsed = sources.map(({ html: content }) => htmlParse(content));
+  const state: ExtractState = {
+    styles: [],
+    origins: new Map(),
+    names: new Map(),
+    elements: [],
+    skipped: [],
+    atomic: [],
+    redundant: [],
+    warnings: [],
+    existing: resolved.skipExisting ? existing : [],
+    merged: new Set(),
+    documents: parsed
+  };
+  const results: HtmlDocument[] = sources.map((source: HtmlDocument, i) => {
+    return { ...source, html: extractDocument(source.html, source.file, resolved, state, parsed[i]) };
+  });
+  const html = results[0]?.html ?? '';
+  const documents = resolved.html ? results : results.slice(1);
+  const styles = finishStyles(state.styles, state.origins, resolved, state.merged);
+  const { origins, elements, skipped, atomic, redundant, warnings } = state;
+
+  checkStrict(warnings, resolved);
+  return { styles, origins, html, documents, elements, skipped, atomic, redundant, warnings };
+};
+
+/**
+ * Extracts styles from the provided HTML content based on the specified options.
+ * @param options - The options for extracting styles.
+ * @returns An array of extracted styles, each with a selector and properties.
+ */
+export const extractStyles = (options: PluginOptions) => {
+  return extract(options).styles;
+};
+
+/**
+ * Derives the stylesheet file name of a page from its name, e.g. `blog/post.css` for `blog/post.html`.
+ * @param page - The name of the page.
+ * @returns The file name.
+ */
+const pageFile = (page: string) => {
+  return `${page.replace(/\.html?$/i, '')}.css`;
+};
+
+/**
+ * Extracts styles from several named HTML documents into a shared stylesheet and a stylesheet per page.
+ * Rules that are identical on at least `minPages` pages go into the shared stylesheet, the rest stay with their page.
+ * Selectors are generated consistently across pages, so the same declarations get the same hash selector on each page.
+ * Each stylesheet is grouped, scoped and ordered on its own.
+ * @param pages - The HTML content of each page by page name, e.g. its path.
+ * @param options - The options for extracting styles, the minimum number of pages sharing a rule (default: 2),
+ * and the file names of the shared stylesheet (default: `shared.css`) and of each page's stylesheet.
+ * @returns The shared styles, the rewritten HTML and styles of each page, a manifest listing the stylesheets
+ * each page needs, the origins of the styles and any warnings.
+ */
+export const extractPages = (pages: Record<string, string>, options: PagesOptions = {}): PagesResult => {
+  const { minPages = 2, sharedFile = 'shared.css', fileName = pageFile, ...rest } = options;
+  const resolved = resolveOptions(rest);
+  const parsed = Object.values(pages).map(content => htmlParse(content));
+  const state: ExtractState = {
+    styles: [],
+    origins: new Map(),
+    names: new Map(),
+    elements: [],
+    skipped: [],
+    atomic: [],
+    redundant: [],
+    warnings: [],
+    existing: [],
+    merged: new Set(),
+    documents: parsed
+  };
+  const extracted = Object.entries(pages).map(([page, content], i) => {
+    const pageState: ExtractState = { ...state, styles: [] };
+    const html = extractDocument(content, page, resolved, pageState, parsed[i]);
+
+    // Pages are compared by their sorted declarations
+    sortMerged(pageState.styles, state.merged, resolved);
+    return { page, html, styles: pageState.styles };
+  });
+  const styleKey = (style: Style) => [...style.context ?? [], style.selector, ...style.props].join('\n');
+  const counts = new Map<string, number>();
+
+  for (const { styles } of extracted) {
+    new Set(styles.map(styleKey)).forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+  }
+
+  // Shared styles are found before finishing, which may change their declarations, e.g. by collapsing them
+  const sharedStyles = new Set(extracted.reduce((list: Style[], { styles }) => list.concat(styles.filter(style => (counts.get(styleKey(style)) ?? 0) >= minPages)), []));
+  const isShared = (style: Style) => sharedStyles.has(style);
+  const shared = new Map<string, Style>();
+
+  for (const style of sharedStyles) {
+    if (!shared.has(styleKey(style))) {
+      shared.set(styleKey(style), style);
+    }
+  }
+
+  const result: PagesResult = { shared: finishStyles(Array.from(shared.values()), state.origins, resolved, state.merged), pages: {}, manifest: {}, origins: state.origins, warnings: state.warnings };
+
+  for (const { page, html, styles } of extracted) {
+    const own = finishStyles(styles.filter(style => !isShared(style)), state.origins, resolved, state.merged);
+    const file = fileName(page);
+
+    result.pages[page] = { file, html, styles: own };
+    result.manifest[page] = [...styles.some(isShared) ? [sharedFile] : [], ...own.length ? [file] : []];
+  }
+  checkStrict(state.warnings, resolved);
+
+  return result;
+};
+
+/**
+ * Builds the comment noting the elements a style was extracted from.
+ * @param style - The style.
+ * @param origins - The origins of the styles.
+ * @returns The comment, or an empty string if the origin of the style is unknown.
+ */
+const originComment = (style: Style, origins: Map<Style, StyleOrigin> | undefined) => {
+  const origin = origins?.get(style);
+
+  if (!origin) {
+    return '';
+  }
+
+  const descriptions = [origin.rule.description, ...Array.from(origin.props.values(), ({ description }) => description)];
+  const text = descriptions.filter((description, i) => description && descriptions.indexOf(description) === i).join(', ');
+
+  return text ? `/* ${text.replace(/\*\//g, '* /')} */` : '';
+};
+
+/**
+ * Formats a property for minified output, removing the whitespace around the colon.
+ * @param prop - The property string, e.g. `color: red`.
+ * @returns The minified property string, e.g. `color:red`.
+ */
+const minifyProp = (prop: string) => {
+  const index = prop.indexOf(':');
+
+  return `${prop.slice(0, index).trim()}:${prop.slice(index + 1).trim()}`;
+};
+
+/**
+ * Formats styles into lines of CSS, nesting them in blocks according to their context.
+ * @param styles - The styles to format.
+ * @param unit - The string used for one level of indentation.
+ * @param depth - The nesting depth of the styles.
+ * @param output - The output options.
+ * @param origins - The origins of the styles, used for comments.
+ * @returns The lines of CSS; in the expanded layout, each rule is followed by an empty line.
+ */
+const formatLines = (styles: Style[], unit: string, depth: number, output: Required<OutputOptions>, origins?: Map<Style, StyleOrigin>): string[] => {
+  const { layout } = output;
+  const pad = layout === 'minified' ? '' : unit.repeat(depth);
+  const gap = layout === 'expanded' ? [''] : [];
+  const line: string[] = [];
+
+  for (let i = 0; i < styles.length;) {
+    const style = styles[i] as Style;
+    const { selector, props, context = [] } = style;
+    const prelude = context[depth];
+
+    if (prelude === undefined) {
+      const comment = output.comments ? originComment(style, origins) : '';
+
+      if (comment) {
+        line.push(`${pad}${comment}`);
+      }
+      if (layout === 'minified') {
+        line.push(`${selector}{${props.map(minifyProp).join(';')}}`);
+      } else if (layout === 'compact') {
+        line.push(`${pad}${selector} {${props.map(prop => ` ${prop};`).join('')} }`);
+      } else {
+        line.push(`${pad}${selector} {`, ...props.map(prop => `${pad}${unit}${prop};`), `${pad}}`, '');
+      }
+      i++;
+    } else {
+      let j = i + 1;
+
+      while (j < styles.length && styles[j]?.context?.[depth] === prelude) {
+        j++;
+      }
+
+      const inner = formatLines(styles.slice(i, j), unit, depth + 1, output, origins);
+
+      line.push(`${pad}${prelude}${layout === 'minified' ? '' : ' '}{`, ...inner.slice(0, inner.length - gap.length), `${pad}}`, ...gap);
+      i = j;
+    }
+  }
+  return line;
+};
+
+/**
+ * Formats the extracted styles into a string of CSS.
+ * Styles sharing an at-rule or nesting context are grouped into a single block.
+ * @param styles - The styles to format.
+ * @param indent - The number of spaces to use for indentation.
+ * @param output - The output options.
+ * @param origins - The origins of the styles, used for comments noting the originating elements.
+ * @returns A formatted string of CSS styles.
+ */
+export const format = (styles: Style[], indent: number, output?: OutputOptions, origins?: Map<Style, StyleOrigin>) => {
+  const resolved = resolveOutput(output);
+  const lines = formatLines(styles, resolved.tabs ? '\t' : ' '.repeat(indent), 0, resolved, origins);
+
+  if (resolved.layout === 'minified') {
+    return lines.join('');
   }
-  return line.join('\n');
+  return resolved.layout === 'compact' && lines.length ? `${lines.join('\n')}\n` : lines.join('\n');
 };
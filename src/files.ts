@@ -0,0 +1,69 @@
+import { readFileSync } from 'fs';
+import { isAbsolute, resolve } from 'path';
+import { globSync, isDynamicPattern } from 'tinyglobby';
+
+export interface HtmlFile {
+  file: string;
+  html: string;
+}
+
+export interface GlobPattern {
+  dir: string;
+  glob: string;
+}
+
+/**
+ * Splits a glob pattern into its static base directory and the dynamic part.
+ * @param pattern - The glob pattern to split.
+ * @param cwd - The directory the pattern is relative to.
+ * @returns The absolute base directory and the remaining glob.
+ */
+const splitPattern = (pattern: string, cwd: string): GlobPattern => {
+  const segments = pattern.split('/');
+  const index = segments.findIndex(segment => isDynamicPattern(segment));
+  const base = segments.slice(0, index).join('/');
+
+  return {
+    dir: resolve(cwd, base || (isAbsolute(pattern) ? '/' : '.')),
+    glob: segments.slice(index).join('/')
+  };
+};
+
+/**
+ * Collects the glob patterns among the given file paths and glob patterns.
+ * @param patterns - The file paths and glob patterns.
+ * @param cwd - The directory the patterns are relative to.
+ * @returns The base directories and globs of the glob patterns.
+ */
+export const globPatterns = (patterns: string[], cwd: string) => {
+  return patterns.filter(pattern => isDynamicPattern(pattern)).map(pattern => splitPattern(pattern, cwd));
+};
+
+/**
+ * Resolves file paths and glob patterns into a sorted list of absolute file paths.
+ * @param patterns - The file paths and glob patterns.
+ * @param cwd - The directory the patterns are relative to.
+ * @returns The absolute paths of the matched files, without duplicates.
+ */
+export const resolveFiles = (patterns: string[], cwd: string) => {
+  const files = new Set<string>();
+
+  for (const pattern of patterns) {
+    if (isDynamicPattern(pattern)) {
+      globSync(pattern, { cwd, absolute: true }).sort().forEach(file => files.add(resolve(file)));
+    } else {
+      files.add(resolve(cwd, pattern));
+    }
+  }
+  return Array.from(files);
+};
+
+/**
+ * Reads the HTML files matched by the given file paths and glob patterns.
+ * @param patterns - The file paths and glob patterns.
+ * @param cwd - The directory the patterns are relative to.
+ * @returns The matched files with their contents.
+ */
+export const readFiles = (patterns: string[], cwd: string): HtmlFile[] => {
+  return resolveFiles(patterns, cwd).map(file => ({ file, html: readFileSync(file, 'utf8') }));
+};
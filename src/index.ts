@@ -1,37 +1,297 @@
-import { PluginCreator, parse } from 'postcss';
-import { extractStyles, format } from './extract.ts';
-import type { PluginOptions } from './extract.ts';
-export type { PluginOptions, SelectorType } from './extract.ts';
-
-const plugin: PluginCreator<PluginOptions> = opts => {
-  const options: Required<PluginOptions> = {
-    html: opts?.html ?? '',
-    selector: opts?.selector ?? 'class',
-    styleTags: opts?.styleTags ?? false,
-    indent: typeof opts?.indent === 'number' && opts.indent > 0 ? opts.indent : 2
-  };
+import { Input, PluginCreator, comment, parse } from 'postcss';
+import type { AtRule, ChildNode, Result, Root, Source } from 'postcss';
+import { compareSelector, extract, extractPages, format, mergeProps, propName, resolveOptions, stringifyDecl } from './extract.ts';
+import type { ConflictPolicy, ExtractWarning, PluginOptions, ResolvedOptions, Style, StyleOrigin } from './extract.ts';
+import { globPatterns } from './files.ts';
+import { isHtmlRoot, syntax } from './syntax.ts';
+export type {
+  AtomicElement,
+  AtomicOptions,
+  ConflictPolicy,
+  DedupeOptions,
+  ElementReport,
+  ExtractedElement,
+  ExtractResult,
+  ExtractWarning,
+  HashOptions,
+  HtmlDocument,
+  InsertMode,
+  Origin,
+  OutputOptions,
+  PageResult,
+  PagesOptions,
+  PagesResult,
+  PathOptions,
+  PluginOptions,
+  RedundantDeclaration,
+  ScopeOptions,
+  SelectorElement,
+  SelectorFunction,
+  SelectorNode,
+  SelectorStrategy,
+  SelectorType,
+  SkippedElement,
+  SkipReason,
+  SpecificityMode,
+  Style,
+  StyleOrigin
+} from './extract.ts';
+
+/**
+ * Appends a node to a container, making sure it starts on a new line.
+ * @param container - The container to append to.
+ * @param node - The node to append.
+ */
+const appendNode = (container: Root | AtRule, node: ChildNode) => {
+  // The root copies the spacing of its last node, at-rules do not
+  if (container.type === 'atrule' && container.last?.raws.before) {
+    node.raws.before = container.last.raws.before;
+  } else if (container.nodes?.length && !node.raws.before) {
+    node.raws.before = '\n';
+  }
+  container.append(node);
+};
+
+/**
+ * Gets the prelude of an at-rule with normalized whitespace, e.g. `@media (min-width: 768px)`.
+ * @param node - The at-rule.
+ * @returns The prelude.
+ */
+const atRulePrelude = (node: AtRule) => {
+  const params = node.params.replace(/\s+/g, ' ').trim();
+
+  return `@${node.name.toLowerCase()}${params ? ` ${params}` : ''}`;
+};
+
+/**
+ * Checks whether an at-rule is a block of rules, such as `@media`, rather than a block of declarations like `@font-face`.
+ * @param node - The at-rule.
+ * @returns True if the at-rule contains rules or at-rules, false otherwise.
+ */
+const isGroupingRule = (node: AtRule) => {
+  return !!node.nodes?.some(child => child.type === 'rule' || child.type === 'atrule');
+};
+
+/**
+ * Merges the extracted nodes into rules of the container with matching selectors.
+ * Rules inside at-rules are merged into the rules of an at-rule with the same prelude, e.g. `@media print`.
+ * Nodes without a matching rule or at-rule are appended to the container.
+ * @param container - The root or at-rule to merge into.
+ * @param nodes - The extracted nodes.
+ * @param conflict - The policy for conflicting declarations.
+ * @param result - The result to report warnings to.
+ */
+const mergeNodes = (container: Root | AtRule, nodes: ChildNode[], conflict: ConflictPolicy, result: Result) => {
+  for (const node of nodes.slice()) {
+    const block = node.type === 'atrule' && isGroupingRule(node)
+      ? container.nodes?.find(child => child.type === 'atrule' && isGroupingRule(child) && atRulePrelude(child) === atRulePrelude(node))
+      : undefined;
+
+    if (node.type === 'atrule' && block?.type === 'atrule') {
+      mergeNodes(block, node.nodes?.slice() ?? [], conflict, result);
+      continue;
+    }
+
+    const target = node.type === 'rule'
+      ? container.nodes?.find(child => child.type === 'rule' && compareSelector(child.selector, node.selector))
+      : undefined;
+
+    if (node.type === 'rule' && target?.type === 'rule') {
+      const decls = target.nodes.filter(child => child.type === 'decl');
+      const props = decls.map(stringifyDecl);
+      const merged = mergeProps(props, node.nodes.filter(child => child.type === 'decl').map(stringifyDecl), conflict, (prev, next) => {
+        const text = `Conflicting declarations in ${target.selector}: "${prev}" (existing) and "${next}" (extracted)`;
+
+        if (conflict === 'error') {
+          throw new Error(text);
+        }
+        if (conflict === 'warn') {
+          result.warn(text, { node: target });
+        }
+      });
+
+      node.each(child => {
+        if (child.type === 'decl' && props.indexOf(stringifyDecl(child)) < 0 && merged.indexOf(stringifyDecl(child)) > -1) {
+          const prev = decls.find(decl => propName(stringifyDecl(decl)) === propName(stringifyDecl(child)));
+
+          if (prev) {
+            prev.replaceWith(child.clone());
+          } else {
+            target.append(child.clone());
+          }
+        }
+      });
+      // Drop existing declarations overridden by an extracted shorthand
+      target.each(child => {
+        if (child.type === 'decl' && merged.indexOf(stringifyDecl(child)) < 0) {
+          child.remove();
+        }
+      });
+    } else {
+      appendNode(container, node);
+    }
+  }
+};
+
+/**
+ * Inserts the extracted nodes into the root according to the insert mode.
+ * @param root - The root to insert into.
+ * @param nodes - The extracted nodes.
+ * @param options - The options for extracting styles.
+ * @param result - The result to report warnings to.
+ */
+const insertNodes = (root: Root, nodes: ChildNode[], options: ResolvedOptions, result: Result) => {
+  const { mode } = options;
+
+  if (mode === 'append') {
+    for (const node of nodes.slice()) {
+      appendNode(root, node);
+    }
+  } else if (mode === 'prepend') {
+    // Keep @charset and @import rules at the top of the stylesheet
+    let head: ChildNode | undefined;
+
+    for (const node of root.nodes) {
+      if (node.type !== 'atrule' || !/^(charset|import)$/i.test(node.name)) {
+        break;
+      }
+      head = node;
+    }
+    if (head) {
+      for (const node of nodes) {
+        if (!node.raws.before) {
+          node.raws.before = '\n';
+        }
+      }
+      root.insertAfter(head, nodes);
+    } else {
+      root.prepend(nodes);
+    }
+  } else if (mode === 'merge') {
+    mergeNodes(root, nodes, options.conflict, result);
+  } else {
+    root.removeAll();
+    root.append(nodes);
+  }
+};
+
+/**
+ * Sets the source of each extracted node to its origin in the HTML.
+ * The rules and declarations appear in the same order as the styles they were formatted from.
+ * @param root - The root holding the extracted nodes.
+ * @param styles - The extracted styles.
+ * @param origins - The origins of the extracted styles.
+ * @param fallback - The source used for nodes without an origin.
+ */
+const assignSources = (root: Root, styles: Style[], origins: Map<Style, StyleOrigin>, fallback: Source | undefined) => {
+  let blocks: ChildNode[] = [];
+  let index = 0;
+
+  root.walk(node => {
+    if (node.type !== 'rule' && node.type !== 'atrule') {
+      return;
+    }
+    if (node.nodes?.some(child => child.type === 'rule' || child.type === 'atrule')) {
+      // Blocks of at-rules and nesting take the source of their first rule
+      blocks.push(node);
+      return;
+    }
+
+    const style = styles[index++];
+    const origin = style && origins.get(style);
+    const source = origin?.rule.source ?? fallback;
+
+    for (const block of blocks.concat(node)) {
+      if (source) {
+        block.source = source;
+      }
+    }
+    node.each(child => {
+      const value = child.type === 'decl' ? origin?.props.get(propName(stringifyDecl(child)))?.source ?? source : undefined;
+
+      if (value) {
+        child.source = value;
+      }
+    });
+    blocks = [];
+  });
+};
+
+/**
+ * Collects the top-level rules of the root, which extracted declarations are checked against.
+ * @param root - The root being processed.
+ * @returns The rules as styles.
+ */
+const existingStyles = (root: Root): Style[] => {
+  return root.nodes.reduce((list: Style[], node) => node.type === 'rule'
+    ? list.concat({ selector: node.selector, props: node.nodes.filter(child => child.type === 'decl').map(stringifyDecl) })
+    : list, []);
+};
+
+/**
+ * Gets a node to report a warning at, pointing to the warning's location in the HTML.
+ * @param root - The root used when the warning has no location.
+ * @param warning - The warning.
+ * @returns The node to report the warning at.
+ */
+const warningNode = (root: Root, { file, line, column }: ExtractWarning) => {
+  if (line === undefined || column === undefined) {
+    return root;
+  }
+  return comment({ text: '', source: { input: new Input('', file ? { from: file, map: false } : { map: false }), start: { line, column, offset: 0 } } });
+};
+
+const creator: PluginCreator<PluginOptions> = opts => {
+  const options = resolveOptions(opts);
 
   return {
     postcssPlugin: 'postcss-inline-extract',
-    Once: root => {
+    Once: (root, { result }) => {
       try {
-        const css = format(extractStyles(options), options.indent);
+        // A root parsed by the syntax holds the styles of an HTML document, which are replaced by the extracted ones
+        const input = isHtmlRoot(root) ? root.source?.input : undefined;
+        // Rules replaced by the extracted ones cannot make them redundant
+        const existing = options.skipExisting && !input && options.mode !== 'replace' ? existingStyles(root) : [];
+        const { styles, origins, documents, elements, skipped, atomic, redundant, warnings } = extract(
+          opts ?? {},
+          input ? [{ ...input.file ? { file: input.file } : {}, html: input.css }] : [],
+          existing
+        );
+        const css = format(styles, options.indent, options.output, origins);
         const parsedRoot = parse(css);
-        const source = root.source;
 
-        if (source) {
-          parsedRoot.each(node => { node.source = source; });
+        assignSources(parsedRoot, styles, origins, root.source);
+        insertNodes(root, parsedRoot.nodes, input ? { ...options, mode: 'replace' } : options, result);
+        delete root.raws.html;
+        for (const { file, html } of documents) {
+          if (file && file !== input?.file) {
+            result.messages.push({ type: 'dependency', plugin: 'postcss-inline-extract', file, parent: result.opts.from });
+          }
+          result.messages.push({ type: 'html', plugin: 'postcss-inline-extract', ...file ? { file } : {}, html });
+        }
+        result.messages.push({ type: 'extraction', plugin: 'postcss-inline-extract', elements, skipped });
+        if (options.atomic) {
+          result.messages.push({ type: 'atomic', plugin: 'postcss-inline-extract', elements: atomic });
+        }
+        if (options.skipExisting) {
+          result.messages.push({ type: 'redundant', plugin: 'postcss-inline-extract', declarations: redundant });
+        }
+        for (const warning of warnings) {
+          result.warn(warning.text, { node: warningNode(root, warning) });
+        }
+        for (const { dir, glob } of globPatterns(options.files, options.cwd)) {
+          result.messages.push({ type: 'dir-dependency', plugin: 'postcss-inline-extract', dir, glob, parent: result.opts.from });
         }
-        root.removeAll();
-        root.append(parsedRoot.nodes);
       } catch (e) {
         const message = e instanceof Error ? e.message : 'Unknown error occurred';
-        root.error(`Failed to extract inline styles: ${message}`, { plugin: 'postcss-inline-extract' });
+        throw root.error(`Failed to extract inline styles: ${message}`, { plugin: 'postcss-inline-extract' });
       }
     }
   };
 };
 
-plugin.postcss = true;
+creator.postcss = true;
+
+const plugin = Object.assign(creator, { extract, extractPages, format, syntax });
 
 export default plugin;
@@ -0,0 +1,156 @@
+import { list as cssList } from 'postcss';
+
+const sides = ['top', 'right', 'bottom', 'left'];
+const borderProps = ['width', 'style', 'color'];
+const fontStretch = /^(normal|(ultra-|extra-|semi-)?(condensed|expanded))$/;
+
+/**
+ * The longhands set directly by each supported shorthand, in the order their values are written in the shorthand.
+ * Longhands may be shorthands themselves, e.g. `border-top` of `border`.
+ */
+const shorthands: Record<string, string[]> = {
+  'margin': sides.map(side => `margin-${side}`),
+  'padding': sides.map(side => `padding-${side}`),
+  'border': ['border-width', 'border-style', 'border-color', ...sides.map(side => `border-${side}`)],
+  'background': [
+    'background-image',
+    'background-position',
+    'background-size',
+    'background-repeat',
+    'background-attachment',
+    'background-origin',
+    'background-clip',
+    'background-color'
+  ],
+  'background-position': ['background-position-x', 'background-position-y'],
+  'font': ['font-style', 'font-variant', 'font-weight', 'font-stretch', 'font-size', 'line-height', 'font-family']
+};
+
+for (const prop of borderProps) {
+  shorthands[`border-${prop}`] = sides.map(side => `border-${side}-${prop}`);
+}
+for (const side of sides) {
+  shorthands[`border-${side}`] = borderProps.map(prop => `border-${side}-${prop}`);
+}
+
+/**
+ * The shorthands that longhands are collapsed into, in the order they are tried.
+ * Border sides and border properties are collapsed before `border` itself, which is built from `border-width`, `border-style` and `border-color`.
+ */
+export const collapsible: [string, string[]][] = [
+  ...borderProps.map(prop => `border-${prop}`),
+  ...sides.map(side => `border-${side}`),
+  'border',
+  'margin',
+  'padding',
+  'background',
+  'font'
+].map(name => [name, name === 'border' ? borderProps.map(prop => `border-${prop}`) : shorthands[name] ?? []]);
+
+/**
+ * Lists all longhands set by a shorthand, including the longhands of longhands.
+ * @param name - The name of the shorthand.
+ * @returns The names of the longhands.
+ */
+const collectLonghands = (name: string): string[] => {
+  return (shorthands[name] ?? []).reduce((list: string[], longhand) => list.concat(longhand, collectLonghands(longhand)), []);
+};
+
+/**
+ * All longhands set by each shorthand, built once as merging and sorting look them up for every pair of declarations.
+ */
+const longhandSets = new Map(Object.keys(shorthands).map(name => [name, new Set(collectLonghands(name))]));
+
+/**
+ * The shorthands setting each longhand, directly or through another shorthand.
+ */
+const shorthandLists = new Map<string, string[]>();
+
+for (const [name, set] of longhandSets) {
+  for (const longhand of set) {
+    shorthandLists.set(longhand, [...shorthandLists.get(longhand) ?? [], name]);
+  }
+}
+
+/**
+ * Lists all longhands set by a property, including the longhands of longhands.
+ * @param name - The property name.
+ * @returns The names of the longhands, or an empty array if the property is not a supported shorthand.
+ */
+export const longhands = (name: string) => {
+  return [...longhandSets.get(name) ?? []];
+};
+
+/**
+ * Lists all shorthands setting a property, e.g. `border-top` and `border` for `border-top-color`.
+ * @param name - The property name.
+ * @returns The names of the shorthands, or an empty array if the property is not set by a supported shorthand.
+ */
+export const shorthandsOf = (name: string) => {
+  return shorthandLists.get(name) ?? [];
+};
+
+/**
+ * Checks whether a shorthand sets a longhand, e.g. `margin` sets `margin-top` and `border` sets `border-top-color`.
+ * @param shorthand - The name of the shorthand.
+ * @param longhand - The name of the longhand.
+ * @returns True if the shorthand sets the longhand, false otherwise.
+ */
+export const overrides = (shorthand: string, longhand: string) => {
+  return longhandSets.get(shorthand)?.has(longhand) ?? false;
+};
+
+/**
+ * Writes the values of four sides in their shortest form, e.g. `0 1px` for `0 1px 0 1px`.
+ * @param values - The values of the top, right, bottom and left sides.
+ * @returns The shorthand value.
+ */
+const boxValue = ([top, right, bottom, left]: string[]) => {
+  if (left !== right) {
+    return [top, right, bottom, left].join(' ');
+  }
+  if (bottom !== top) {
+    return [top, right, bottom].join(' ');
+  }
+  return right === top ? top : [top, right].join(' ');
+};
+
+/**
+ * Builds the value of the `font` shorthand, leaving out `normal` values before the font size.
+ * @param values - The values of `font-style`, `font-variant`, `font-weight`, `font-stretch`, `font-size`, `line-height` and `font-family`.
+ * @returns The shorthand value, or undefined if `font-variant` or `font-stretch` has a value the shorthand does not accept.
+ */
+const fontValue = ([style, variant, weight, stretch, size, lineHeight, family]: string[]) => {
+  if (!/^(normal|small-caps)$/.test(variant ?? '') || !fontStretch.test(stretch ?? '')) {
+    return undefined;
+  }
+  return [...[style, variant, weight, stretch].filter(value => value !== 'normal'), `${size}/${lineHeight}`, family].join(' ');
+};
+
+/**
+ * Builds the value of a shorthand from the values of its longhands.
+ * @param shorthand - The name of the shorthand, one of the `collapsible` shorthands.
+ * @param values - The values of the longhands, in the order listed in `collapsible`.
+ * @returns The shorthand value, or undefined if the longhand values cannot be expressed by the shorthand.
+ */
+export const shorthandValue = (shorthand: string, values: string[]) => {
+  if (shorthand === 'font') {
+    return fontValue(values);
+  }
+  if (values.some(value => cssList.comma(value).length > 1)) {
+    // Multiple background layers are not collapsed
+    return undefined;
+  }
+  if (shorthand === 'margin' || shorthand === 'padding' || borderProps.some(prop => shorthand === `border-${prop}`)) {
+    return boxValue(values);
+  }
+  if (shorthand === 'border') {
+    return values.every(value => cssList.space(value).length === 1) ? values.join(' ') : undefined;
+  }
+  if (shorthand === 'background') {
+    const [image, position, size, repeat, attachment, origin, clip, color] = values;
+
+    return [image, `${position} / ${size}`, repeat, attachment, origin === clip ? origin : `${origin} ${clip}`, color].join(' ');
+  }
+  return values.join(' ');
+};
@@ -0,0 +1,97 @@
+import { CssSyntaxError, Input, Root, Rule, parse as parseCss, stringify } from 'postcss';
+import type { Container, Parser, Syntax } from 'postcss';
+import { parse as htmlParse } from 'node-html-parser';
+import { findAttribute, findTagEnd, toSource } from './extract.ts';
+
+/**
+ * Moves the sources of the parsed nodes from their CSS snippet to its location in the HTML.
+ * @param container - The container holding the parsed nodes.
+ * @param input - The input of the HTML.
+ * @param start - The offset of the CSS snippet in the HTML.
+ * @param end - The offset in the HTML that the sources do not extend beyond.
+ */
+const relocate = (container: Container, input: Input, start: number, end: number) => {
+  container.walk(node => {
+    const { start: from, end: to } = node.source ?? {};
+
+    if (from?.offset !== undefined && to?.offset !== undefined) {
+      node.source = toSource(input, Math.min(start + from.offset, end), Math.min(start + to.offset, end));
+    }
+  });
+};
+
+/**
+ * Parses CSS, leaving out content that cannot be parsed.
+ * @param css - The CSS to parse.
+ * @returns The parsed root, or undefined if the CSS is not valid.
+ */
+const tryParse = (css: string) => {
+  try {
+    return parseCss(css);
+  } catch (e) {
+    if (e instanceof CssSyntaxError) {
+      return undefined;
+    }
+    throw e;
+  }
+};
+
+/**
+ * Checks whether a root was parsed from HTML by the syntax.
+ * @param root - The root to check.
+ * @returns True if the root holds the styles of an HTML document, false otherwise.
+ */
+export const isHtmlRoot = (root: Root) => {
+  return root.raws.html === true;
+};
+
+/**
+ * Parses an HTML document into a root holding its styles, with sources pointing at the HTML.
+ * Each `style` attribute becomes a rule such as `div[style]` with the attribute's declarations,
+ * and the rules of each `<style>` block are added as they are, in document order.
+ * Attributes and blocks that are not valid CSS are left out; the plugin reports them when extracting.
+ * The nodes are for reading only: the plugin extracts from the HTML itself and discards them.
+ * @param html - The HTML content.
+ * @param opts - The options of the input.
+ * @returns The root, which the plugin replaces with the styles extracted from the HTML.
+ */
+export const parse: Parser<Root> = (html, opts) => {
+  const input = new Input(html.toString(), opts);
+  const content = input.css;
+  const root = new Root({ source: { input, start: { offset: 0, line: 1, column: 1 } } });
+
+  root.raws.html = true;
+  for (const el of htmlParse(content).querySelectorAll('style, [style]')) {
+    const [start] = el.range;
+    const end = findTagEnd(content, start);
+    const tagName = el.rawTagName.toLowerCase();
+
+    if (tagName === 'style') {
+      const block = tryParse(el.textContent);
+
+      if (block) {
+        relocate(block, input, end, el.range[1]);
+        root.append(block.nodes);
+      }
+      continue;
+    }
+
+    const attr = findAttribute(content.slice(start, end), 'style');
+    const decls = tryParse(el.getAttribute('style') ?? '');
+
+    if (attr && decls) {
+      const rule = new Rule({ selector: `${tagName}[style]`, source: toSource(input, start + attr.start, start + attr.end) });
+
+      relocate(decls, input, start + attr.valueStart, start + attr.valueEnd);
+      rule.append(decls.nodes);
+      root.append(rule);
+    }
+  }
+  return root;
+};
+
+/**
+ * Custom syntax for processing HTML files with PostCSS.
+ * The HTML is parsed into a root of its styles, and the plugin replaces them with the extracted stylesheet.
+ */
+export const syntax: Syntax<Root> = { parse, stringify };
@@ -0,0 +1,104 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { run, usage } from '../src/cli.ts';
+
+const cwd = resolve('tests/fixtures');
+
+/**
+ * Runs the command line interface, capturing its output.
+ * @param args - The command line arguments.
+ * @returns The exit code and the text written to stdout and stderr.
+ */
+const cli = (...args: string[]) => {
+  const output = { stdout: '', stderr: '' };
+  const code = run(args, {
+    stdout: { write: (text: string) => (output.stdout += text) },
+    stderr: { write: (text: string) => (output.stderr += text) }
+  });
+
+  return { code, ...output };
+};
+
+describe('command line interface', () => {
+  let dir = '';
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'postcss-inline-extract-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('writes the extracted CSS to stdout', () => {
+    const { code, stdout, stderr } = cli('--cwd', cwd, 'pages/index.html');
+
+    expect(code).toBe(0);
+    expect(stderr).toBe('');
+    expect(stdout.trim()).toBe(`.button {
+  color: red;
+}
+
+.text {
+  margin: 0;
+}`);
+  });
+
+  test('writes the extracted CSS to a file', () => {
+    const output = join(dir, 'css/styles.css');
+    const { code, stdout } = cli('--cwd', cwd, '-o', output, '--indent', '4', 'pages/blog/*.html');
+
+    expect(code).toBe(0);
+    expect(stdout).toBe('');
+    expect(readFileSync(output, 'utf8').trim()).toBe(`.post {
+    font-size: 16px;
+}`);
+  });
+
+  test('writes the rewritten HTML files to a directory', () => {
+    const { code } = cli('--cwd', cwd, '--html-dir', dir, '-s', 'hash', 'pages/**/*.html');
+
+    expect(code).toBe(0);
+    expect(readFileSync(join(dir, 'pages/index.html'), 'utf8')).toContain('<div class="button i3fdle">Home</div>');
+    expect(readFileSync(join(dir, 'pages/blog/post.html'), 'utf8')).not.toContain('style=');
+  });
+
+  test('extracts style tags when enabled', () => {
+    const file = join(dir, 'page.html');
+
+    writeFileSync(file, '<style>.a { color: red; }</style><p class="b" style="margin: 0">Text</p>');
+
+    const { stdout } = cli('--cwd', dir, '--style-tags', 'page.html');
+
+    expect(stdout).toContain('.a {');
+    expect(stdout).toContain('.b {');
+  });
+
+  test('prints warnings and exits with an error in strict mode', () => {
+    const file = join(dir, 'page.html');
+
+    writeFileSync(file, '<p class="a" style="">Text</p>');
+
+    expect(cli('--cwd', dir, 'page.html')).toMatchObject({ code: 0, stderr: `Warning: Empty style attribute of <p class="a"> (${file}:1:14)\n` });
+
+    const { code, stdout, stderr } = cli('--cwd', dir, '--strict', 'page.html');
+
+    expect(code).toBe(1);
+    expect(stdout).toBe('');
+    expect(stderr).toContain('Failed with 1 warning(s) in strict mode');
+  });
+
+  test('reports invalid arguments', () => {
+    expect(cli()).toMatchObject({ code: 1, stderr: 'Error: No input files given\n' });
+    expect(cli('--cwd', cwd, 'missing/*.html').stderr).toBe('Error: No HTML files matched missing/*.html\n');
+    expect(cli('-s', 'name', 'page.html').stderr).toContain('Invalid selector type "name"');
+    expect(cli('--indent', '0', 'page.html').stderr).toBe('Error: Invalid indent "0", expected a positive integer\n');
+    expect(cli('--unknown', 'page.html').code).toBe(1);
+  });
+
+  test('prints the usage', () => {
+    expect(cli('--help')).toEqual({ code: 0, stdout: usage, stderr: '' });
+  });
+});
@@ -41,7 +41,8 @@ describe('error handling', () => {
     // Current implementation creates selector even with empty styles
     expect(result.css.trim()).toBe(`.test {
 }`);
-    expect(result.warnings()).toHaveLength(0);
+    expect(result.warnings()).toHaveLength(1);
+    expect(result.warnings()[0]).toMatchObject({ text: 'Empty style attribute of <div class="test">', line: 1, column: 6 });
   });
 
   test('handles whitespace-only style attribute', async () => {
@@ -53,7 +54,8 @@ describe('error handling', () => {
     // Current implementation creates selector even with whitespace-only styles
     expect(result.css.trim()).toBe(`.test {
 }`);
-    expect(result.warnings()).toHaveLength(0);
+    expect(result.warnings()).toHaveLength(1);
+    expect(result.warnings()[0]?.text).toBe('Empty style attribute of <div class="test">');
   });
 
   test('handles malformed CSS in style tags', async () => {
@@ -70,7 +72,9 @@ describe('error handling', () => {
 
     // Malformed CSS in style tags causes PostCSS to fail, resulting in empty output
     expect(result.css.trim()).toBe('');
-    expect(result.warnings()).toHaveLength(0);
+    expect(result.warnings()).toHaveLength(1);
+    expect(result.warnings()[0]).toMatchObject({ text: 'Skipped unparsable <style> block: Unclosed block', line: 2, column: 7 });
+    expect(result.messages).toContainEqual(expect.objectContaining({ type: 'html', html: expect.stringContaining('.invalid { color: red') }));
   });
 
   test('handles elements without class or id when using class/id selector', async () => {
@@ -81,7 +85,18 @@ describe('error handling', () => {
 
     // Should produce empty output when no class is found
     expect(result.css.trim()).toBe('');
-    expect(result.warnings()).toHaveLength(0);
+    expect(result.warnings()).toHaveLength(1);
+    expect(result.warnings()[0]?.text).toBe('No selector generated for <div>, its inline styles were left in place');
+  });
+
+  test('turns warnings into errors when strict is true', async () => {
+    const html = '<div style="color: red;">No class</div>\n<p class="e" style="">Empty</p>';
+
+    await expect(postcss([plugin({ html, strict: true })]).process('', { from: undefined })).rejects.toThrow(
+      'Failed to extract inline styles: No selector generated for <div>, its inline styles were left in place (1:6) and 1 more warning(s)'
+    );
+    await expect(postcss([plugin({ html: '<div class="a" style="color: red;"></div>', strict: true })]).process('', { from: undefined }))
+      .resolves.toMatchObject({ css: '.a {\n  color: red;\n}' });
   });
 
   test('handles nested HTML structures', async () => {
@@ -175,9 +190,12 @@ describe('error handling', () => {
     const result = await postcss([plugin({ html, styleTags: true })])
       .process('', { from: undefined });
 
-    // Should extract valid parts and handle invalid CSS gracefully
+    // Should extract valid parts and keep at-rules without a body in the HTML
     expect(result.css).toContain('.valid {\n  color: red;\n}');
-    expect(result.warnings()).toHaveLength(0);
+    expect(result.warnings().map(warning => warning.text)).toEqual([
+      'Kept @import "non-existent.css" in <style> block, as at-rules without a body cannot be extracted',
+      'Kept @invalid-at-rule in <style> block, as at-rules without a body cannot be extracted'
+    ]);
   });
 
   test('handles circular or self-referencing HTML', async () => {
@@ -1,10 +1,10 @@
 import { describe, test, expect } from 'vitest';
-import { extractStyles, format } from '../src/extract.ts';
-import type { PluginOptions } from '../src/extract.ts';
+import { extract, extractPages, extractStyles, format } from '../src/extract.ts';
+import type { PluginOptions, SelectorElement, SelectorFunction } from '../src/extract.ts';
 
 describe('extractStyles function', () => {
   test('extracts inline styles from HTML elements', () => {
-    const options: Required<PluginOptions> = {
+    const options: PluginOptions = {
       html: '<div style="color: red; font-size: 14px;" class="test">Hello</div>',
       selector: 'class',
       styleTags: false,
@@ -18,7 +18,7 @@ describe('extractStyles function', () => {
   });
 
   test('handles class selector generation', () => {
-    const options: Required<PluginOptions> = {
+    const options: PluginOptions = {
       html: '<div style="color: blue;" class="my-class another-class">Hello</div>',
       selector: 'class',
       styleTags: false,
@@ -32,7 +32,7 @@ describe('extractStyles function', () => {
   });
 
   test('handles id selector generation', () => {
-    const options: Required<PluginOptions> = {
+    const options: PluginOptions = {
       html: '<div style="margin: 10px;" id="unique-id">Hello</div>',
       selector: 'id',
       styleTags: false,
@@ -46,7 +46,7 @@ describe('extractStyles function', () => {
   });
 
   test('generates hash selector when no class or id available', () => {
-    const options: Required<PluginOptions> = {
+    const options: PluginOptions = {
       html: '<div style="padding: 5px;">Hello</div>',
       selector: 'hash',
       styleTags: false,
@@ -59,8 +59,61 @@ describe('extractStyles function', () => {
     expect(result[0].props).toEqual(['padding: 5px']);
   });
 
+  test('generates the same hash selector for identical styles', () => {
+    const html = `
+      <div style="color: red; margin: 0;">Hello</div>
+      <p style="margin: 0; color: red">World</p>
+    `;
+
+    const result = extractStyles({ html, selector: 'hash' });
+    expect(result).toEqual([
+      { selector: '.b8syv4', props: ['color: red', 'margin: 0'] }
+    ]);
+    expect(extractStyles({ html, selector: 'hash' })).toEqual(result);
+  });
+
+  test('respects hash prefix and length options', () => {
+    const result = extractStyles({
+      html: '<div style="color: red;">Hello</div>',
+      selector: 'hash',
+      hash: { prefix: 'x-', length: 10 }
+    });
+
+    expect(result).toHaveLength(1);
+    expect(result[0]?.selector).toMatch(/^\.x-[a-z0-9]{10}$/);
+  });
+
+  test('rejects prefixes that cannot start a class name', () => {
+    const html = '<div style="color: red;">Hello</div>';
+
+    expect(() => extract({ html, selector: 'hash', hash: { prefix: '9' } })).toThrow('Invalid hash prefix "9"');
+    expect(() => extract({ html, selector: 'hash', prefix: '-1' })).toThrow('Invalid prefix "-1"');
+    expect(() => extract({ html, selector: 'hash', prefix: 'a b' })).toThrow('Invalid prefix "a b"');
+    expect(extractStyles({ html, selector: 'hash', hash: { prefix: '--' } })[0]?.selector).toMatch(/^\.--[a-z0-9]{6}$/);
+  });
+
+  test('derives hash selectors from the element path when requested', () => {
+    const result = extractStyles({
+      html: '<div style="color: red;">Hello</div><p style="color: red;">World</p>',
+      selector: 'hash',
+      hash: { path: true },
+      dedupe: false
+    });
+
+    expect(result).toHaveLength(2);
+    expect(result[0]?.selector).not.toBe(result[1]?.selector);
+  });
+
+  test('avoids hash collisions between different styles', () => {
+    const html = Array.from({ length: 50 }, (_, i) => `<div style="z-index: ${i};"></div>`).join('');
+
+    const result = extractStyles({ html, selector: 'hash', hash: { length: 1 } });
+    expect(result).toHaveLength(50);
+    expect(new Set(result.map(style => style.selector)).size).toBe(50);
+  });
+
   test('merges properties from elements with same selector', () => {
-    const options: Required<PluginOptions> = {
+    const options: PluginOptions = {
       html: `
         <div style="color: red;" class="test">Hello</div>
         <div style="font-size: 16px;" class="test">World</div>
@@ -77,7 +130,7 @@ describe('extractStyles function', () => {
   });
 
   test('handles multiple selector types priority', () => {
-    const options: Required<PluginOptions> = {
+    const options: PluginOptions = {
       html: '<div style="color: green;" class="my-class" id="my-id">Hello</div>',
       selector: ['class', 'id'],
       styleTags: false,
@@ -91,7 +144,7 @@ describe('extractStyles function', () => {
   });
 
   test('ignores style tags when styleTags is false', () => {
-    const options: Required<PluginOptions> = {
+    const options: PluginOptions = {
       html: `
         <style>.existing { margin: 10px; }</style>
         <div style="color: red;" class="test">Hello</div>
@@ -108,7 +161,7 @@ describe('extractStyles function', () => {
   });
 
   test('extracts from style tags when styleTags is true', () => {
-    const options: Required<PluginOptions> = {
+    const options: PluginOptions = {
       html: `
         <style>.existing { margin: 10px; }</style>
         <div style="color: red;" class="test">Hello</div>
@@ -126,7 +179,7 @@ describe('extractStyles function', () => {
   });
 
   test('handles complex CSS selectors from style tags', () => {
-    const options: Required<PluginOptions> = {
+    const options: PluginOptions = {
       html: `
         <style>
           .parent > .child { color: blue; }
@@ -147,8 +200,85 @@ describe('extractStyles function', () => {
     ]);
   });
 
+  test('keeps at-rule context of rules from style tags', () => {
+    const result = extractStyles({
+      html: `
+        <style>
+          .a { color: red; }
+          @media (min-width: 768px) {
+            .a { color: blue; }
+            @supports (display: grid) { .b { display: grid; } }
+          }
+          @layer base { .a { margin: 0; } }
+        </style>
+      `,
+      styleTags: true
+    });
+
+    expect(result).toEqual([
+      { selector: '.a', props: ['color: red'] },
+      { selector: '.a', props: ['color: blue'], context: ['@media (min-width: 768px)'] },
+      { selector: '.b', props: ['display: grid'], context: ['@media (min-width: 768px)', '@supports (display: grid)'] },
+      { selector: '.a', props: ['margin: 0'], context: ['@layer base'] }
+    ]);
+  });
+
+  test('merges rules only within the same at-rule context', () => {
+    const result = extractStyles({
+      html: `
+        <style>@media print { .a { color: red; } }</style>
+        <style>@media print { .a { margin: 0; } } .a { padding: 0; }</style>
+      `,
+      styleTags: true
+    });
+
+    expect(result).toEqual([
+      { selector: '.a', props: ['color: red', 'margin: 0'], context: ['@media print'] },
+      { selector: '.a', props: ['padding: 0'] }
+    ]);
+  });
+
+  test('keeps @keyframes and @font-face blocks', () => {
+    const result = extractStyles({
+      html: `
+        <style>
+          @font-face { font-family: "A"; src: url(a.woff2); }
+          @font-face { font-family: "B"; src: url(b.woff2); }
+          @keyframes spin { from { transform: rotate(0); } to { transform: rotate(360deg); } }
+        </style>
+      `,
+      styleTags: true
+    });
+
+    expect(result).toEqual([
+      { selector: '@font-face', props: ['font-family: "A"', 'src: url(a.woff2)'] },
+      { selector: '@font-face', props: ['font-family: "B"', 'src: url(b.woff2)'] },
+      { selector: 'from', props: ['transform: rotate(0)'], context: ['@keyframes spin'] },
+      { selector: 'to', props: ['transform: rotate(360deg)'], context: ['@keyframes spin'] }
+    ]);
+  });
+
+  test('keeps at-rules without a body in the <style> tag and warns', () => {
+    const result = extract({
+      html: '<style media="screen">@import url(a.css); @layer base, components, inline; .a { color: red; } @media print { @layer b; }</style><p>Text</p>',
+      styleTags: true
+    });
+
+    expect(result.styles).toEqual([{ selector: '.a', props: ['color: red'] }]);
+    expect(result.html).toBe('<style media="screen">@import url(a.css); @layer base, components, inline;</style><p>Text</p>');
+    expect(result.warnings.map(({ text, column }) => [text, column])).toEqual([
+      ['Kept @import url(a.css) in <style> block, as at-rules without a body cannot be extracted', 23],
+      ['Kept @layer base, components, inline in <style> block, as at-rules without a body cannot be extracted', 43],
+      ['Skipped @layer b in <style> block, as at-rules without a body cannot be extracted', 110]
+    ]);
+  });
+
+  test('removes <style> tags without at-rules left to keep', () => {
+    expect(extract({ html: '<style>.a { color: red; }</style><p>Text</p>', styleTags: true }).html).toBe('<p>Text</p>');
+  });
+
   test('handles empty HTML', () => {
-    const options: Required<PluginOptions> = {
+    const options: PluginOptions = {
       html: '',
       selector: 'class',
       styleTags: false,
@@ -160,7 +290,7 @@ describe('extractStyles function', () => {
   });
 
   test('handles malformed style attributes', () => {
-    const options: Required<PluginOptions> = {
+    const options: PluginOptions = {
       html: '<div style="color: red; ; margin;" class="test">Hello</div>',
       selector: 'class',
       styleTags: false,
@@ -169,8 +299,965 @@ describe('extractStyles function', () => {
 
     const result = extractStyles(options);
     expect(result).toEqual([
-      { selector: '.test', props: ['color: red', 'margin'] }
+      { selector: '.test', props: ['color: red'] }
+    ]);
+  });
+
+  test('keeps semicolons and colons inside values intact', () => {
+    const result = extractStyles({
+      html: '<div class="test" style=\'background: url(data:image/png;base64,iVBO); font-family: "a;b", serif; content: "x:y"\'>Hello</div>'
+    });
+
+    expect(result).toEqual([
+      {
+        selector: '.test',
+        props: ['background: url(data:image/png;base64,iVBO)', 'content: "x:y"', 'font-family: "a;b", serif']
+      }
+    ]);
+  });
+
+  test('preserves !important, comments and custom properties as written', () => {
+    const result = extractStyles({
+      html: '<div class="test" style="color: red!important; margin: /* reset */ 0; --gap: { a: b }; padding: 1px /* x */ 2px">Hello</div>'
+    });
+
+    expect(result).toEqual([
+      {
+        selector: '.test',
+        props: ['--gap: { a: b }', 'color: red!important', 'margin: /* reset */ 0', 'padding: 1px /* x */ 2px']
+      }
+    ]);
+  });
+});
+
+describe('extract function', () => {
+  test('reports malformed declarations as warnings', () => {
+    const result = extract({
+      html: '<div class="test" style="color: red; invalid-property; margin: ; padding: 0 }">Hello</div>'
+    });
+
+    expect(result.styles).toEqual([
+      { selector: '.test', props: ['color: red'] }
+    ]);
+    expect(result.warnings).toEqual([
+      { text: 'Malformed declaration "invalid-property" in style attribute of <div class="test">', line: 1, column: 38 },
+      { text: 'Missing value of declaration "margin:" in style attribute of <div class="test">', line: 1, column: 56 },
+      { text: 'Malformed declaration "padding: 0 }" in style attribute of <div class="test">', line: 1, column: 66 }
+    ]);
+  });
+
+  test('reports rules and at-rules in style attributes as warnings', () => {
+    const result = extract({
+      html: '<p class="x" style="color: red; .y { color: blue } @media print { margin: 0 }">Hello</p>'
+    });
+
+    expect(result.styles).toEqual([
+      { selector: '.x', props: ['color: red'] }
+    ]);
+    expect(result.warnings).toEqual([
+      { text: 'Malformed declaration ".y { color: blue }" in style attribute of <p class="x">', line: 1, column: 33 },
+      { text: 'Malformed declaration "@media print { margin: 0 }" in style attribute of <p class="x">', line: 1, column: 52 }
+    ]);
+  });
+
+  test('removes extracted style attributes from the HTML', () => {
+    const result = extract({
+      html: '<div class="test" style="color: red;">Hello</div>'
+    });
+
+    expect(result.styles).toEqual([
+      { selector: '.test', props: ['color: red'] }
+    ]);
+    expect(result.html).toBe('<div class="test">Hello</div>');
+  });
+
+  test('keeps unquoted values apart from the end of self-closing tags', () => {
+    expect(extract({ html: '<img class=foo style="color: red"/><br class=bar style=margin:0 data-x=1 />' }).html)
+      .toBe('<img class=foo /><br class=bar data-x=1 />');
+    expect(extract({ html: '<img class=foo style="color: red">' }).html).toBe('<img class=foo >');
+    expect(extract({ html: '<img class=foo style="color: red"/>', selector: ['hash'] }).html).toBe('<img class="foo i3fdle"/>');
+  });
+
+  test('adds generated hash classes to the class list', () => {
+    const result = extract({
+      html: '<div class="box" style="color: red;">Hello</div><p style=\'margin: 0\'/>',
+      selector: 'hash'
+    });
+    const [first, second] = result.styles.map(style => style.selector.slice(1));
+
+    expect(result.html).toBe(`<div class="box ${first}">Hello</div><p class="${second}"/>`);
+  });
+
+  test('leaves elements without a generated selector untouched', () => {
+    const html = '<div style="color: red;">Hello</div><p id="x" style="margin: 0">World</p>';
+    const result = extract({ html, selector: 'id' });
+
+    expect(result.styles).toEqual([
+      { selector: '#x', props: ['margin: 0'] }
     ]);
+    expect(result.html).toBe('<div style="color: red;">Hello</div><p id="x">World</p>');
+  });
+
+  test('preserves the rest of the markup', () => {
+    const html = `<!DOCTYPE html>
+<html>
+  <body>
+    <svg><rect STYLE="fill: red" class=shape /></svg>
+  </body>
+</html>`;
+    const result = extract({ html });
+
+    expect(result.html).toBe(`<!DOCTYPE html>
+<html>
+  <body>
+    <svg><rect class=shape /></svg>
+  </body>
+</html>`);
+  });
+
+  test('removes extracted style tags when styleTags is true', () => {
+    const result = extract({
+      html: '<style>.a { color: red; }</style><div class="b" style="margin: 0">Hello</div>',
+      styleTags: true
+    });
+
+    expect(result.html).toBe('<div class="b">Hello</div>');
+  });
+});
+
+describe('conflict option', () => {
+  const html = `
+    <div style="color: red; margin: 0;" class="btn">Hello</div>
+    <span style="color: blue;" class="btn">World</span>
+  `;
+
+  test('keeps the last declaration by default', () => {
+    const result = extract({ html });
+
+    expect(result.styles).toEqual([
+      { selector: '.btn', props: ['color: blue', 'margin: 0'] }
+    ]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  test('keeps the first declaration when conflict is first', () => {
+    const result = extract({ html, conflict: 'first' });
+
+    expect(result.styles).toEqual([
+      { selector: '.btn', props: ['color: red', 'margin: 0'] }
+    ]);
+  });
+
+  test('reports conflicting elements when conflict is warn', () => {
+    const result = extract({ html, conflict: 'warn' });
+
+    expect(result.styles).toEqual([
+      { selector: '.btn', props: ['color: blue', 'margin: 0'] }
+    ]);
+    expect(result.warnings).toEqual([
+      {
+        text: 'Conflicting declarations in .btn: "color: red" (<div class="btn">) and "color: blue" (<span class="btn">)',
+        line: 3,
+        column: 18
+      }
+    ]);
+  });
+
+  test('throws on conflicting declarations when conflict is error', () => {
+    expect(() => extract({ html, conflict: 'error' })).toThrow(
+      'Conflicting declarations in .btn: "color: red" (<div class="btn">) and "color: blue" (<span class="btn">)'
+    );
+  });
+
+  test('does not treat identical declarations as conflicts', () => {
+    const result = extract({
+      html: '<div style="color: red;" class="btn"></div><p style="color: red;" class="btn"></p>',
+      conflict: 'error'
+    });
+
+    expect(result.styles).toEqual([
+      { selector: '.btn', props: ['color: red'] }
+    ]);
+  });
+});
+
+describe('shorthand handling', () => {
+  test('overrides longhands with a later shorthand', () => {
+    const result = extractStyles({
+      html: '<p class="a" style="margin-top: 4px; color: red">A</p><p class="a" style="margin: 0">B</p>'
+    });
+
+    expect(result).toEqual([{ selector: '.a', props: ['color: red', 'margin: 0'] }]);
+  });
+
+  test('keeps longhands after their shorthand when sorting', () => {
+    const result = extractStyles({
+      html: '<p class="a" style="margin: 0; margin-top: 4px; color: red">A</p><p class="a" style="border: 1px solid; border-color: red">B</p>'
+    });
+
+    expect(result).toEqual([
+      { selector: '.a', props: ['border: 1px solid', 'border-color: red', 'color: red', 'margin: 0', 'margin-top: 4px'] }
+    ]);
+  });
+
+  test('drops longhands overridden by an earlier shorthand when conflict is first', () => {
+    const result = extract({
+      html: '<p class="a" style="margin: 0">A</p><p class="a" style="margin-top: 4px; font-size: 12px">B</p><p class="a" style="font: 14px serif">C</p>',
+      conflict: 'first'
+    });
+
+    expect(result.styles).toEqual([{ selector: '.a', props: ['font: 14px serif', 'font-size: 12px', 'margin: 0'] }]);
+  });
+
+  test('gives !important declarations precedence regardless of order', () => {
+    const result = extractStyles({
+      html: '<p class="a" style="color: red !important; padding-left: 2px !important">A</p><p class="a" style="color: blue; padding: 0">B</p>'
+    });
+
+    expect(result).toEqual([{ selector: '.a', props: ['color: red !important', 'padding: 0', 'padding-left: 2px !important'] }]);
+  });
+
+  test('reports longhands overridden by a shorthand as conflicts', () => {
+    const result = extract({
+      html: '<p class="a" style="margin-top: 4px">A</p><p class="a" style="margin: 0">B</p>',
+      conflict: 'warn'
+    });
+
+    expect(result.warnings.map(({ text }) => text)).toEqual([
+      'Conflicting declarations in .a: "margin-top: 4px" (<p class="a">) and "margin: 0" (<p class="a">)'
+    ]);
+  });
+
+  test('collapses complete sets of longhands when collapse is enabled', () => {
+    const result = extractStyles({
+      html: `
+        <p class="a" style="margin-top: 0; margin-right: 1px; margin-bottom: 0; margin-left: 1px; color: red">A</p>
+        <p class="b" style="border-width: 1px; border-style: solid; border-color: red">B</p>
+        <p class="c" style="border-top-width: 2px; border-top-style: dashed; border-top-color: blue">C</p>
+        <p class="d" style="font-style: italic; font-variant: normal; font-weight: bold; font-stretch: normal; font-size: 12px; line-height: 1.5; font-family: Arial, sans-serif">D</p>
+      `,
+      collapse: true
+    });
+
+    expect(result).toEqual([
+      { selector: '.a', props: ['color: red', 'margin: 0 1px'] },
+      { selector: '.b', props: ['border: 1px solid red'] },
+      { selector: '.c', props: ['border-top: 2px dashed blue'] },
+      { selector: '.d', props: ['font: italic bold 12px/1.5 Arial, sans-serif'] }
+    ]);
+  });
+
+  test('does not collapse incomplete or mixed sets of longhands', () => {
+    const result = extractStyles({
+      html: `
+        <p class="a" style="padding-top: 0; padding-right: 0; padding-bottom: 0">A</p>
+        <p class="b" style="padding-top: 0; padding-right: 0; padding-bottom: 0; padding-left: 0 !important">B</p>
+        <p class="c" style="margin: 0; margin-top: 0; margin-right: 0; margin-bottom: 0; margin-left: 0">C</p>
+      `,
+      collapse: true
+    });
+
+    expect(result.map(({ props }) => props.length)).toEqual([3, 4, 5]);
+  });
+});
+
+describe('states option', () => {
+  const states = {
+    'data-style-hover': ':hover',
+    'data-style-md': '@media (min-width: 768px)'
+  };
+
+  test('extracts state attributes into pseudo-class and at-rule styles', () => {
+    const result = extract({
+      html: '<a class="btn" style="color: red" data-style-hover="color: blue" data-style-md="padding: 4px">A</a>',
+      states
+    });
+
+    expect(result.styles).toEqual([
+      { selector: '.btn', props: ['color: red'] },
+      { selector: '.btn:hover', props: ['color: blue'] },
+      { selector: '.btn', props: ['padding: 4px'], context: ['@media (min-width: 768px)'] }
+    ]);
+    expect(result.html).toBe('<a class="btn">A</a>');
+  });
+
+  test('extracts elements with state attributes only', () => {
+    const result = extract({ html: '<a class="link" data-style-hover="color: blue">A</a>', states });
+
+    expect(result.styles).toEqual([{ selector: '.link:hover', props: ['color: blue'] }]);
+    expect(result.html).toBe('<a class="link">A</a>');
+  });
+
+  test('derives hash selectors from the state declarations as well', () => {
+    const result = extract({
+      html: '<a style="color: red" data-style-hover="color: blue">A</a><a style="color: red" data-style-hover="color: green">B</a>',
+      selector: 'hash',
+      dedupe: false,
+      states
+    });
+
+    expect(result.styles.map(({ selector }) => selector)).toEqual(['.be03pn', '.be03pn:hover', '.b9fjz9', '.b9fjz9:hover']);
+  });
+
+  test('creates atomic classes for state declarations', () => {
+    const result = extract({ html: '<a style="color: red" data-style-hover="color: blue">A</a>', states, atomic: true });
+
+    expect(result.styles).toEqual([
+      { selector: '.i3fdle', props: ['color: red'] },
+      { selector: '.ngod81:hover', props: ['color: blue'] }
+    ]);
+    expect(result.html).toBe('<a class="i3fdle ngod81">A</a>');
+  });
+
+  test('skips elements with template interpolation in a state attribute', () => {
+    const result = extract({ html: '<a class="btn" style="color: red" data-style-hover="color: {{ c }}">A</a>', states });
+
+    expect(result.styles).toEqual([]);
+    expect(result.skipped).toMatchObject([{ reason: 'interpolation' }]);
+    expect(result.warnings).toMatchObject([{ text: 'Skipped data-style-hover attribute of <a class="btn"> containing template interpolation "{{ c }}"' }]);
+  });
+});
+
+describe('skipExisting option', () => {
+  const existing = [{ selector: '.i3fdle, .a', props: ['color: red'] }, { selector: 'p.a', props: ['margin: 0 !important'] }];
+
+  test('keeps atomic classes out of the output when existing rules guarantee them', () => {
+    const { styles, html, redundant } = extract({ html: '<p style="color: red; margin: 0;">A</p>', atomic: true, skipExisting: true }, [], existing);
+
+    expect(styles).toEqual([{ selector: '.z469me', props: ['margin: 0'] }]);
+    expect(html).toBe('<p class="z469me">A</p>');
+    expect(redundant.map(({ selector, rule }) => [selector, rule])).toEqual([['.i3fdle', '.i3fdle, .a']]);
+  });
+
+  test('keeps declarations that are important or have other values', () => {
+    const { styles, redundant } = extract({ html: '<p class="a" style="color: red !important; margin: 0 !important;">A</p>', skipExisting: true }, [], existing);
+
+    expect(styles).toEqual([{ selector: '.a', props: ['color: red !important'] }]);
+    expect(redundant.map(({ prop, rule }) => [prop, rule])).toEqual([['margin: 0 !important', 'p.a']]);
+  });
+});
+
+describe('path selector', () => {
+  test('builds structural selectors for elements without class or id', () => {
+    const html = '<ul><li>One</li><li style="color: red;">Two</li></ul><p><span style="margin: 0;">Hi</span></p>';
+
+    const result = extract({ html, selector: 'path' });
+    expect(result.styles).toEqual([
+      { selector: 'li:nth-of-type(2)', props: ['color: red'] },
+      { selector: 'span', props: ['margin: 0'] }
+    ]);
+    expect(result.html).toBe('<ul><li>One</li><li>Two</li></ul><p><span>Hi</span></p>');
+  });
+
+  test('adds ancestors until the selector is unique', () => {
+    const html = `
+      <div id="main"><p style="color: red;">A</p></div>
+      <div class="card"><p>B</p></div>
+      <div class="card"><p style="color: blue;">C</p></div>
+    `;
+
+    const result = extractStyles({ html, selector: 'path' });
+    expect(result).toEqual([
+      { selector: '#main > p', props: ['color: red'] },
+      { selector: 'div.card:nth-of-type(3) > p', props: ['color: blue'] }
+    ]);
+  });
+
+  test('skips elements without a unique selector within the maximum depth', () => {
+    const html = '<div><div><p>A</p></div></div><div><div><p style="color: red;">B</p></div></div>';
+
+    expect(extractStyles({ html, selector: 'path', path: { maxDepth: 2 } })).toEqual([]);
+    expect(extractStyles({ html, selector: ['path', 'hash'], path: { maxDepth: 2 } })).toEqual([
+      { selector: '.i3fdle', props: ['color: red'] }
+    ]);
+    expect(extractStyles({ html, selector: 'path', path: { maxDepth: 3 } })).toEqual([
+      { selector: 'div:nth-of-type(2) > div > p', props: ['color: red'] }
+    ]);
+  });
+
+  test('checks uniqueness across all extracted documents', () => {
+    const first = extract({ html: '<div><span style="margin: 0;">a</span></div>', selector: 'path' }, [
+      { file: 'b.html', html: '<p><span>b</span><span>c</span></p>' }
+    ]);
+
+    expect(first.styles).toEqual([{ selector: 'div > span', props: ['margin: 0'] }]);
+
+    const second = extract({ html: '<span style="color: red;">a</span>', selector: 'path' }, [
+      { file: 'b.html', html: '<span style="color: blue;">b</span>' }
+    ]);
+
+    expect(second.styles).toEqual([]);
+    expect(second.skipped.map(({ reason }) => reason)).toEqual(['no-selector', 'no-selector']);
+  });
+
+  test('leaves out ids and classes that are not plain identifiers', () => {
+    const html = '<section id="a:b"><p class="x y/z" style="color: red;">A</p></section>';
+
+    expect(extractStyles({ html, selector: 'path' })).toEqual([
+      { selector: 'p.x', props: ['color: red'] }
+    ]);
+  });
+});
+
+describe('selector function', () => {
+  test('uses the selector returned by the function', () => {
+    const html = '<div class="card"><button data-role="save" style="color: red;">Save</button></div>';
+
+    const result = extract({ html, selector: ({ attributes }) => `[data-role="${attributes['data-role']}"]` });
+    expect(result.styles).toEqual([
+      { selector: '[data-role="save"]', props: ['color: red'] }
+    ]);
+    expect(result.html).toBe('<div class="card"><button data-role="save">Save</button></div>');
+  });
+
+  test('describes the element, its ancestors, declarations and index', () => {
+    const html = '<p style="margin: 0;">A</p><section id="s"><div class="card"><b style="color: red; font-weight: 700;">B</b></div></section>';
+    const elements: SelectorElement[] = [];
+
+    extractStyles({
+      html,
+      selector: element => {
+        elements.push(element);
+        return null;
+      }
+    });
+    expect(elements).toEqual([
+      { tagName: 'p', attributes: { style: 'margin: 0;' }, ancestors: [], props: ['margin: 0'], index: 0 },
+      {
+        tagName: 'b',
+        attributes: { style: 'color: red; font-weight: 700;' },
+        ancestors: [
+          { tagName: 'div', attributes: { class: 'card' } },
+          { tagName: 'section', attributes: { id: 's' } }
+        ],
+        props: ['color: red', 'font-weight: 700'],
+        index: 1
+      }
+    ]);
+  });
+
+  test('falls through to the next strategy when the function returns null', () => {
+    const html = '<div class="card"><span style="color: red;">A</span><span class="x" style="margin: 0;">B</span></div>';
+    const bem = ({ tagName, ancestors }: SelectorElement) => {
+      const block = ancestors.find(node => node.attributes.class)?.attributes.class;
+      return tagName === 'span' && block ? `.${block}__${tagName}` : null;
+    };
+
+    const result = extract({ html, selector: ['class', bem] });
+    expect(result.styles).toEqual([
+      { selector: '.card__span', props: ['color: red'] },
+      { selector: '.x', props: ['margin: 0'] }
+    ]);
+    expect(result.html).toBe('<div class="card"><span class="card__span">A</span><span class="x">B</span></div>');
+  });
+
+  test('throws when the function returns something other than a string or null', () => {
+    const html = '<div style="color: red;">A</div>';
+    const selector = (() => 42) as unknown as SelectorFunction;
+
+    expect(() => extractStyles({ html, selector })).toThrow('Selector function returned number instead of a string or null');
+  });
+});
+
+describe('atomic option', () => {
+  const html = `
+    <div class="card" style="color: red; margin: 0;">A</div>
+    <p style="margin: 0;">B</p>
+  `;
+
+  test('emits one class per unique declaration', () => {
+    const result = extract({ html, atomic: true });
+
+    expect(result.styles).toEqual([
+      { selector: '.i3fdle', props: ['color: red'] },
+      { selector: '.z469me', props: ['margin: 0'] }
+    ]);
+    expect(result.atomic).toEqual([
+      { index: 0, element: '<div class="card">', classes: ['i3fdle', 'z469me'] },
+      { index: 1, element: '<p>', classes: ['z469me'] }
+    ]);
+    expect(result.html).toBe(`
+    <div class="card i3fdle z469me">A</div>
+    <p class="z469me">B</p>
+  `);
+  });
+
+  test('leaves the HTML untouched when apply is false', () => {
+    const result = extract({ html, atomic: { apply: false } });
+
+    expect(result.styles).toHaveLength(2);
+    expect(result.atomic[1]).toEqual({ index: 1, element: '<p>', classes: ['z469me'] });
+    expect(result.html).toBe(html);
+  });
+
+  test('respects the hash prefix', () => {
+    const result = extract({ html: '<p style="margin: 0;">B</p>', atomic: true, hash: { prefix: 'u-', length: 4 } });
+
+    expect(result.styles).toEqual([{ selector: '.u-z469', props: ['margin: 0'] }]);
+    expect(result.html).toBe('<p class="u-z469">B</p>');
+  });
+
+  test('leaves out declarations overridden within the element', () => {
+    const result = extract({ html: '<a style="margin: 0; margin-top: 10px;">A</a><b style="margin-top: 10px; margin: 0;">B</b>', atomic: true });
+
+    expect(result.styles.map(({ props }) => props)).toEqual([['margin: 0'], ['margin-top: 10px']]);
+    expect(result.atomic[1]?.classes).toEqual(['z469me']);
+    expect(result.warnings).toEqual([]);
+  });
+
+  test('warns when the rules of related declarations are in the opposite order', () => {
+    const result = extract({ html: '<a style="margin-top: 10px;">A</a><b style="margin: 0; margin-top: 10px;">B</b>', atomic: true });
+
+    expect(result.styles.map(({ props }) => props)).toEqual([['margin-top: 10px'], ['margin: 0']]);
+    expect(result.warnings.map(({ text }) => text)).toEqual([
+      'Atomic rules of <b> cannot keep the order of "margin: 0" and "margin-top: 10px", as they were added in the opposite order'
+    ]);
+  });
+});
+
+describe('dedupe option', () => {
+  const html = `
+    <div class="card" style="color: red; margin: 0;">A</div>
+    <div class="note" style="padding: 0;">B</div>
+    <div class="panel" style="margin: 0; color: red;">C</div>
+  `;
+
+  test('groups selectors with identical declarations by default', () => {
+    expect(extractStyles({ html })).toEqual([
+      { selector: '.card, .panel', props: ['color: red', 'margin: 0'] },
+      { selector: '.note', props: ['padding: 0'] }
+    ]);
+  });
+
+  test('keeps every rule when dedupe is false', () => {
+    expect(extractStyles({ html, dedupe: false })).toEqual([
+      { selector: '.card', props: ['color: red', 'margin: 0'] },
+      { selector: '.note', props: ['padding: 0'] },
+      { selector: '.panel', props: ['color: red', 'margin: 0'] }
+    ]);
+  });
+
+  test('only groups rules within the same context', () => {
+    const result = extractStyles({
+      html: '<style>.a { color: red; } @media print { .b { color: red; } } .c { color: red; }</style>',
+      styleTags: true
+    });
+
+    expect(result).toEqual([
+      { selector: '.a, .c', props: ['color: red'] },
+      { selector: '.b', props: ['color: red'], context: ['@media print'] }
+    ]);
+  });
+
+  test('does not group rules across a rule setting a related property to another value', () => {
+    const result = extractStyles({
+      html: '<p class="a" style="color: red;">A</p><p class="b" style="color: blue;">B</p><p class="c" style="color: red;">C</p><p class="d" style="color: red;">D</p>'
+    });
+
+    expect(result).toEqual([
+      { selector: '.a', props: ['color: red'] },
+      { selector: '.b', props: ['color: blue'] },
+      { selector: '.c, .d', props: ['color: red'] }
+    ]);
+  });
+
+  test('factors out shared declarations when factor is true', () => {
+    const result = extractStyles({
+      html: `
+        <div class="card" style="color: red; margin: 0;">A</div>
+        <div class="panel" style="color: red; padding: 0;">B</div>
+        <div class="tile" style="color: red; padding: 0;">C</div>
+      `,
+      dedupe: { factor: true }
+    });
+
+    expect(result).toEqual([
+      { selector: '.card, .panel, .tile', props: ['color: red'] },
+      { selector: '.card', props: ['margin: 0'] },
+      { selector: '.panel, .tile', props: ['padding: 0'] }
+    ]);
+  });
+
+  test('does not factor declarations related to another declaration of the rule', () => {
+    const result = extractStyles({
+      html: `
+        <div class="card" style="margin: 0; margin-top: 4px;">A</div>
+        <div class="panel" style="margin: 0;">B</div>
+      `,
+      dedupe: { factor: true }
+    });
+
+    expect(result).toEqual([
+      { selector: '.card', props: ['margin: 0', 'margin-top: 4px'] },
+      { selector: '.panel', props: ['margin: 0'] }
+    ]);
+  });
+});
+
+describe('scoping options', () => {
+  test('prefixes generated class names in the styles and the HTML', () => {
+    const result = extract({
+      html: '<div class="btn primary" style="color: red;">A</div><p style="margin: 0;">B</p>',
+      selector: ['class', 'hash'],
+      prefix: 'w-'
+    });
+
+    expect(result.styles).toEqual([
+      { selector: '.w-btn.w-primary', props: ['color: red'] },
+      { selector: '.w-z469me', props: ['margin: 0'] }
+    ]);
+    expect(result.html).toBe('<div class="btn primary w-btn w-primary">A</div><p class="w-z469me">B</p>');
+  });
+
+  test('prefixes atomic class names', () => {
+    const result = extract({ html: '<p style="margin: 0;">B</p>', atomic: true, prefix: 'w-' });
+
+    expect(result.styles).toEqual([{ selector: '.w-z469me', props: ['margin: 0'] }]);
+    expect(result.html).toBe('<p class="w-z469me">B</p>');
+  });
+
+  test('prefixes every selector with a descendant scope', () => {
+    const result = extractStyles({
+      html: `
+        <div class="btn" style="color: red;">A</div>
+        <div class="link" style="color: red;">B</div>
+        <style>
+          :is(.a, .b) { margin: 0; }
+          @media print { .c { display: none; } }
+          @keyframes spin { to { rotate: 1turn; } }
+          @font-face { font-family: X; }
+        </style>
+      `,
+      styleTags: true,
+      scope: '.widget-x'
+    });
+
+    expect(result).toEqual([
+      { selector: '.widget-x .btn, .widget-x .link', props: ['color: red'] },
+      { selector: '.widget-x :is(.a, .b)', props: ['margin: 0'] },
+      { selector: '.widget-x .c', props: ['display: none'], context: ['@media print'] },
+      { selector: 'to', props: ['rotate: 1turn'], context: ['@keyframes spin'] },
+      { selector: '@font-face', props: ['font-family: X'] }
+    ]);
+  });
+
+  test('wraps rules in @scope and @layer blocks', () => {
+    const result = extractStyles({
+      html: '<style>.a { color: red; } @media print { .b { color: blue; } } @font-face { font-family: X; }</style>',
+      styleTags: true,
+      scope: { selector: '.widget-x', rule: true },
+      layer: 'widgets'
+    });
+
+    expect(result).toEqual([
+      { selector: '.a', props: ['color: red'], context: ['@layer widgets', '@scope (.widget-x)'] },
+      { selector: '.b', props: ['color: blue'], context: ['@layer widgets', '@scope (.widget-x)', '@media print'] },
+      { selector: '@font-face', props: ['font-family: X'], context: ['@layer widgets'] }
+    ]);
+    expect(format(result, 2)).toBe(`@layer widgets {
+  @scope (.widget-x) {
+    .a {
+      color: red;
+    }
+
+    @media print {
+      .b {
+        color: blue;
+      }
+    }
+  }
+
+  @font-face {
+    font-family: X;
+  }
+}
+`);
+  });
+});
+
+describe('specificity option', () => {
+  const html = '<div class="btn" style="color: red; margin: 0 !important;">A</div><p style="padding: 0;">B</p>';
+
+  test('leaves declarations and selectors unchanged by default', () => {
+    const result = extract({ html, selector: ['class', 'path'] });
+
+    expect(result.styles).toEqual([
+      { selector: '.btn', props: ['color: red', 'margin: 0 !important'] },
+      { selector: 'p', props: ['padding: 0'] }
+    ]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  test('appends !important to declarations from style attributes', () => {
+    const result = extract({
+      html: `${html}<style>.a { color: blue; }</style>`,
+      selector: ['class', 'path'],
+      styleTags: true,
+      specificity: 'important'
+    });
+
+    expect(result.styles).toEqual([
+      { selector: '.btn', props: ['color: red !important', 'margin: 0 !important'] },
+      { selector: 'p', props: ['padding: 0 !important'] },
+      { selector: '.a', props: ['color: blue'] }
+    ]);
+    expect(result.warnings).toEqual([{
+      text: 'Declaration "margin: 0 !important" in style attribute of <div class="btn"> is already !important, so its inline precedence cannot be preserved',
+      line: 1,
+      column: 37
+    }]);
+  });
+
+  test('boosts the specificity of generated selectors', () => {
+    const result = extract({ html, selector: ['class', 'path'], specificity: 'boost' });
+
+    expect(result.styles).toEqual([
+      { selector: '.btn.btn', props: ['color: red', 'margin: 0 !important'] },
+      { selector: 'p:nth-child(n)', props: ['padding: 0'] }
+    ]);
+    expect(result.html).toBe('<div class="btn">A</div><p>B</p>');
+    expect(result.warnings).toEqual([]);
+  });
+
+  test('places rules from style attributes in a dedicated cascade layer', () => {
+    const result = extract({
+      html: `${html}<style>.a { color: blue; }</style>`,
+      selector: ['class', 'path'],
+      styleTags: true,
+      specificity: 'layer'
+    });
+
+    expect(result.styles).toEqual([
+      { selector: '.btn', props: ['color: red', 'margin: 0 !important'], context: ['@layer inline'] },
+      { selector: 'p', props: ['padding: 0'], context: ['@layer inline'] },
+      { selector: '.a', props: ['color: blue'] }
+    ]);
+    expect(result.warnings).toHaveLength(1);
+  });
+});
+
+describe('template and SVG handling', () => {
+  test('extracts styles inside <template> by default', () => {
+    const html = '<template><div class="card" style="color: red;">A</div></template>';
+
+    expect(extract({ html }).html).toBe('<template><div class="card">A</div></template>');
+    expect(extract({ html, templates: false })).toMatchObject({ styles: [], html });
+  });
+
+  test('converts SVG presentation attributes when svg is true', () => {
+    const html = '<svg><rect class="box" fill="red" stroke="blue" width="10" style="stroke: green;"/></svg><font class="f" color="red" style="margin: 0;">A</font>';
+
+    const result = extract({ html, svg: true });
+    expect(result.styles).toEqual([
+      { selector: '.box', props: ['fill: red', 'stroke: green'] },
+      { selector: '.f', props: ['margin: 0'] }
+    ]);
+    expect(result.html).toBe('<svg><rect class="box" width="10"/></svg><font class="f" color="red">A</font>');
+  });
+
+  test('extracts SVG elements with presentation attributes only', () => {
+    const html = '<svg class="icon" fill="none"><path class="p" stroke-width="2" d="M0 0"/></svg>';
+
+    const result = extract({ html, svg: true });
+    expect(result.styles).toEqual([
+      { selector: '.icon', props: ['fill: none'] },
+      { selector: '.p', props: ['stroke-width: 2'] }
+    ]);
+    expect(result.html).toBe('<svg class="icon"><path class="p" d="M0 0"/></svg>');
+    expect(extract({ html }).html).toBe(html);
+  });
+
+  test('skips style attributes containing template interpolation with a warning', () => {
+    const html = '<p class="a" style="color: {{ color }};">A</p><p class="b" style="margin: 0;">B</p>';
+
+    const result = extract({ html });
+    expect(result.styles).toEqual([{ selector: '.b', props: ['margin: 0'] }]);
+    expect(result.html).toBe('<p class="a" style="color: {{ color }};">A</p><p class="b">B</p>');
+    expect(result.warnings).toEqual([{
+      text: 'Skipped style attribute of <p class="a"> containing template interpolation "{{ color }}"',
+      line: 1,
+      column: 14
+    }]);
+  });
+
+  test('leaves presentation attributes containing template interpolation in place', () => {
+    const html = '<svg><circle class="c" fill="<%= color %>" stroke="red"/></svg>';
+
+    const result = extract({ html, svg: true });
+    expect(result.styles).toEqual([{ selector: '.c', props: ['stroke: red'] }]);
+    expect(result.html).toBe('<svg><circle class="c" fill="<%= color %>"/></svg>');
+  });
+
+  test('uses a custom interpolation pattern', () => {
+    const html = '<p class="a" style="color: [[ c ]];">A</p><p class="b" style="content: \'{{\';">B</p>';
+
+    const result = extract({ html, interpolation: /\[\[.*?\]\]/ });
+    expect(result.styles).toEqual([{ selector: '.b', props: ['content: \'{{\''] }]);
+    expect(result.warnings).toHaveLength(1);
+    expect(extract({ html, interpolation: false }).styles).toHaveLength(2);
+  });
+});
+
+describe('element filtering', () => {
+  const html = [
+    '<main class="content"><p class="a" style="color: red;">A</p></main>',
+    '<div class="widget"><p class="b" style="color: blue;">B</p></div>',
+    '<table class="c" style="margin: 0;" data-inline-keep></table>'
+  ].join('');
+
+  test('leaves elements with the keep attribute and their descendants untouched', () => {
+    const result = extract({
+      html: '<div data-inline-keep><p class="a" style="color: red;">A</p></div><p class="b" style="margin: 0;">B</p>'
+    });
+
+    expect(result.styles).toEqual([{ selector: '.b', props: ['margin: 0'] }]);
+    expect(result.html).toBe('<div data-inline-keep><p class="a" style="color: red;">A</p></div><p class="b">B</p>');
+  });
+
+  test('skips elements matching or inside exclude selectors', () => {
+    const result = extract({ html, exclude: ['.widget'] });
+
+    expect(result.styles).toEqual([{ selector: '.a', props: ['color: red'] }]);
+    expect(result.html).toBe([
+      '<main class="content"><p class="a">A</p></main>',
+      '<div class="widget"><p class="b" style="color: blue;">B</p></div>',
+      '<table class="c" style="margin: 0;" data-inline-keep></table>'
+    ].join(''));
+  });
+
+  test('only extracts elements matching or inside include selectors', () => {
+    expect(extractStyles({ html, include: '.content, .widget' })).toEqual([
+      { selector: '.a', props: ['color: red'] },
+      { selector: '.b', props: ['color: blue'] }
+    ]);
+    expect(extractStyles({ html, include: 'p', exclude: '.b' })).toEqual([
+      { selector: '.a', props: ['color: red'] }
+    ]);
+  });
+
+  test('reports the reason elements were skipped', () => {
+    const result = extract({
+      html: `<template><p style="top: 0;"></p></template>${html}`,
+      include: ['main', '.widget', 'template'],
+      exclude: '.widget',
+      templates: false
+    });
+
+    expect(result.elements.map(({ selector }) => selector)).toEqual(['.a']);
+    expect(result.skipped.map(({ tagName, reason }) => [tagName, reason])).toEqual([
+      ['p', 'template'],
+      ['p', 'excluded'],
+      ['table', 'not-included']
+    ]);
+  });
+
+  test('uses a custom keep attribute or none', () => {
+    expect(extractStyles({ html, keepAttribute: 'data-inline' })).toHaveLength(3);
+    expect(extractStyles({ html: html.replace('data-inline-keep', 'data-raw'), keepAttribute: 'data-raw' })).toHaveLength(2);
+    expect(extractStyles({ html, keepAttribute: false })).toHaveLength(3);
+  });
+
+  test('applies the filters to style tags', () => {
+    const result = extract({
+      html: '<style>.a { color: red; }</style><style data-inline-keep>.b { color: blue; }</style>',
+      styleTags: true
+    });
+
+    expect(result.styles).toEqual([{ selector: '.a', props: ['color: red'] }]);
+    expect(result.html).toBe('<style data-inline-keep>.b { color: blue; }</style>');
+  });
+});
+
+describe('output option', () => {
+  const html = '<div class="b" style="margin: 0; color: red;">A</div><div class="a" style="padding: 0;">B</div><div class="b" style="border: 0;">C</div>';
+
+  test('sorts declarations and keeps rules in source order by default', () => {
+    expect(extractStyles({ html })).toEqual([
+      { selector: '.b', props: ['border: 0', 'color: red', 'margin: 0'] },
+      { selector: '.a', props: ['padding: 0'] }
+    ]);
+  });
+
+  test('keeps declarations in source order', () => {
+    expect(extractStyles({ html, output: { declarationOrder: 'source' } })).toEqual([
+      { selector: '.b', props: ['margin: 0', 'color: red', 'border: 0'] },
+      { selector: '.a', props: ['padding: 0'] }
+    ]);
+  });
+
+  test('orders rules by selector within their context', () => {
+    const result = extractStyles({
+      html: `${html}<style>@media print { .d { color: red; } .c { color: blue; } }</style>`,
+      styleTags: true,
+      output: { ruleOrder: 'selector' }
+    });
+
+    expect(result.map(({ selector }) => selector)).toEqual(['.a', '.b', '.c', '.d']);
+    expect(result[2]?.context).toEqual(['@media print']);
+  });
+});
+
+describe('extractPages function', () => {
+  const pages = {
+    'index.html': '<div class="button" style="color: red">Home</div><p class="intro" style="margin: 0">Hi</p>',
+    'about.html': '<div class="button" style="color: red">About</div><p class="team" style="padding: 0">Us</p>',
+    'blog/post.html': '<article class="post" style="color: red">Post</article>'
+  };
+
+  test('splits rules used on several pages into a shared stylesheet', () => {
+    const { shared, pages: results, manifest } = extractPages(pages);
+
+    expect(shared).toEqual([{ selector: '.button', props: ['color: red'] }]);
+    expect(results['index.html']).toEqual({
+      file: 'index.css',
+      html: '<div class="button">Home</div><p class="intro">Hi</p>',
+      styles: [{ selector: '.intro', props: ['margin: 0'] }]
+    });
+    expect(results['about.html']?.styles).toEqual([{ selector: '.team', props: ['padding: 0'] }]);
+    expect(manifest).toEqual({
+      'index.html': ['shared.css', 'index.css'],
+      'about.html': ['shared.css', 'about.css'],
+      'blog/post.html': ['blog/post.css']
+    });
+  });
+
+  test('generates the same hash selectors on each page', () => {
+    const { shared, manifest } = extractPages(pages, { selector: 'hash', dedupe: false });
+
+    expect(shared).toEqual([{ selector: '.i3fdle', props: ['color: red'] }]);
+    expect(manifest['blog/post.html']).toEqual(['shared.css']);
+  });
+
+  test('supports the minimum number of pages and file names', () => {
+    const { shared, manifest } = extractPages(pages, {
+      selector: 'hash',
+      minPages: 3,
+      sharedFile: 'common.css',
+      fileName: page => `css/${page.replace('/', '-').replace('.html', '.css')}`
+    });
+
+    expect(shared).toEqual([{ selector: '.i3fdle', props: ['color: red'] }]);
+    expect(manifest).toEqual({
+      'index.html': ['common.css', 'css/index.css'],
+      'about.html': ['common.css', 'css/about.css'],
+      'blog/post.html': ['common.css']
+    });
+  });
+
+  test('keeps collapsed shared rules out of the page stylesheets', () => {
+    const page = '<p class="x" style="margin-top: 1px; margin-right: 1px; margin-bottom: 1px; margin-left: 1px">Text</p>';
+    const { shared, pages: results, manifest } = extractPages({ 'a.html': page, 'b.html': page }, { collapse: true });
+
+    expect(shared).toEqual([{ selector: '.x', props: ['margin: 1px'] }]);
+    expect(results['a.html']?.styles).toEqual([]);
+    expect(manifest).toEqual({ 'a.html': ['shared.css'], 'b.html': ['shared.css'] });
+  });
+
+  test('reports warnings with the page name', () => {
+    expect(extractPages({ 'index.html': '<p class="a" style="">Text</p>' }).warnings).toEqual([
+      { text: 'Empty style attribute of <p class="a">', file: expect.stringMatching(/index\.html$/), line: 1, column: 14 }
+    ]);
+    expect(() => extractPages({ 'index.html': '<p class="a" style="">Text</p>' }, { strict: true })).toThrow('Empty style attribute');
   });
 });
 
@@ -218,6 +1305,86 @@ describe('format function', () => {
 `);
   });
 
+  test('formats styles in nested blocks', () => {
+    const styles = [
+      { selector: '.a', props: ['color: red'] },
+      { selector: '.a', props: ['color: blue'], context: ['@media print'] },
+      { selector: '.b', props: ['margin: 0'], context: ['@media print', '@supports (display: grid)'] },
+      { selector: '@font-face', props: ['font-family: "A"'] }
+    ];
+
+    const result = format(styles, 2);
+    expect(result).toBe(`.a {
+  color: red;
+}
+
+@media print {
+  .a {
+    color: blue;
+  }
+
+  @supports (display: grid) {
+    .b {
+      margin: 0;
+    }
+  }
+}
+
+@font-face {
+  font-family: "A";
+}
+`);
+  });
+
+  test('indents with tabs', () => {
+    const styles = [
+      { selector: '.a', props: ['color: red'], context: ['@media print'] }
+    ];
+
+    expect(format(styles, 2, { tabs: true })).toBe('@media print {\n\t.a {\n\t\tcolor: red;\n\t}\n}\n');
+  });
+
+  test('formats styles in the compact layout', () => {
+    const styles = [
+      { selector: '.a', props: ['color: red', 'margin: 0'] },
+      { selector: '.b', props: ['color: blue'], context: ['@media print'] }
+    ];
+
+    expect(format(styles, 2, { layout: 'compact' })).toBe(`.a { color: red; margin: 0; }
+@media print {
+  .b { color: blue; }
+}
+`);
+  });
+
+  test('formats styles in the minified layout', () => {
+    const styles = [
+      { selector: '.a', props: ['color: red', 'margin: 0 !important'] },
+      { selector: '.b', props: ['color: blue'], context: ['@media print'] }
+    ];
+
+    expect(format(styles, 2, { layout: 'minified' })).toBe('.a{color:red;margin:0 !important}@media print{.b{color:blue}}');
+  });
+
+  test('adds comments noting the originating elements', () => {
+    const { styles, origins } = extract({
+      html: '<div class="a" style="color: red;">A</div><p class="a" style="margin: 0;">B</p><style>.b { color: blue; }</style>',
+      styleTags: true
+    });
+
+    expect(format(styles, 2, { comments: true }, origins)).toBe(`/* <div class="a">, <p class="a"> */
+.a {
+  color: red;
+  margin: 0;
+}
+
+/* <style> */
+.b {
+  color: blue;
+}
+`);
+  });
+
   test('handles empty styles array', () => {
     const styles: { selector: string; props: string[] }[] = [];
 
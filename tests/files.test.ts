@@ -0,0 +1,49 @@
+import { describe, test, expect } from 'vitest';
+import { resolve } from 'path';
+import { globPatterns, readFiles, resolveFiles } from '../src/files.ts';
+
+const cwd = resolve('tests/fixtures');
+
+describe('resolveFiles function', () => {
+  test('resolves plain file paths relative to cwd', () => {
+    expect(resolveFiles(['pages/index.html'], cwd)).toEqual([
+      resolve(cwd, 'pages/index.html')
+    ]);
+  });
+
+  test('expands glob patterns in sorted order', () => {
+    expect(resolveFiles(['pages/**/*.html'], cwd)).toEqual([
+      resolve(cwd, 'pages/about.html'),
+      resolve(cwd, 'pages/blog/post.html'),
+      resolve(cwd, 'pages/index.html')
+    ]);
+  });
+
+  test('removes duplicate files', () => {
+    expect(resolveFiles(['pages/index.html', 'pages/*.html'], cwd)).toEqual([
+      resolve(cwd, 'pages/index.html'),
+      resolve(cwd, 'pages/about.html')
+    ]);
+  });
+});
+
+describe('readFiles function', () => {
+  test('reads the contents of matched files', () => {
+    const [file] = readFiles(['pages/blog/*.html'], cwd);
+
+    expect(file?.file).toBe(resolve(cwd, 'pages/blog/post.html'));
+    expect(file?.html).toContain('<article class="post" style="font-size: 16px;">');
+  });
+
+  test('throws when a file does not exist', () => {
+    expect(() => readFiles(['pages/missing.html'], cwd)).toThrow();
+  });
+});
+
+describe('globPatterns function', () => {
+  test('splits glob patterns into base directory and glob', () => {
+    expect(globPatterns(['pages/index.html', 'pages/**/*.html'], cwd)).toEqual([
+      { dir: resolve(cwd, 'pages'), glob: '**/*.html' }
+    ]);
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, test, expect } from 'vitest';
+import { resolve } from 'path';
 import postcss from 'postcss';
 import plugin from '../src/index.ts';
 import type { PluginOptions } from '../src/index.ts';
@@ -40,11 +41,29 @@ describe('postcss-inline-extract plugin', () => {
   test('generates hash selector when no class or id', async () => {
     const html = '<div style="color: green;">Hello</div>';
 
-    const result = await postcss([plugin({ html, selector: 'hash' })])
-      .process('', { from: undefined });
+    await run(
+      '',
+      `.j91uwu {
+  color: green;
+}`,
+      { html, selector: 'hash' }
+    );
+  });
+
+  test('falls back to the next selector type in priority order', async () => {
+    const html = '<div style="color: red;" id="myid">Hello</div><p style="margin: 0;">World</p>';
+
+    await run(
+      '',
+      `#myid {
+  color: red;
+}
 
-    // Verify that a hash selector is generated
-    expect(result.css).toMatch(/\.[a-z0-9]+ \{\n {2}color: green;\n\}/);
+.z469me {
+  margin: 0;
+}`,
+      { html, selector: ['class', 'id', 'hash'] }
+    );
   });
 
   test('handles multiple elements with same class', async () => {
@@ -96,6 +115,28 @@ describe('postcss-inline-extract plugin', () => {
     );
   });
 
+  test('preserves at-rules from style tags', async () => {
+    const html = `
+      <style>
+        @media (max-width: 600px) { .existing { margin: 0; } }
+      </style>
+      <div style="color: red;" class="existing">Hello</div>
+    `;
+
+    await run('',
+      `.existing {
+  color: red;
+}
+
+@media (max-width: 600px) {
+  .existing {
+    margin: 0;
+  }
+}`,
+      { html, styleTags: true }
+    );
+  });
+
   test('handles selector priority order', async () => {
     const html = '<div style="color: red;" class="myclass" id="myid">Hello</div>';
 
@@ -105,8 +146,8 @@ describe('postcss-inline-extract plugin', () => {
       selector: ['class', 'id']
     });
 
-    // ID priority (when class exists, class takes precedence due to current logic)
-    await run('', '.myclass {\n  color: red;\n}', {
+    // ID priority
+    await run('', '#myid {\n  color: red;\n}', {
       html,
       selector: ['id', 'class']
     });
@@ -124,6 +165,12 @@ describe('postcss-inline-extract plugin', () => {
     );
   });
 
+  test('respects output options', async () => {
+    const html = '<div style="color: red; margin: 0;" class="test">Hello</div>';
+
+    await run('', '/* <div class="test"> */.test{color:red;margin:0}', { html, output: { layout: 'minified', comments: true } });
+  });
+
   test('handles complex style properties', async () => {
     const html = '<div style="color: red; font-family: &quot;Arial&quot;, sans-serif; margin: 10px 20px;" class="test">Hello</div>';
 
@@ -155,6 +202,311 @@ describe('postcss-inline-extract plugin', () => {
     );
   });
 
+  test('reports the rewritten HTML via result messages', async () => {
+    const html = '<div style="color: red;" class="test">Hello</div>';
+
+    const result = await postcss([plugin({ html })])
+      .process('', { from: undefined });
+
+    expect(result.messages).toContainEqual({
+      type: 'html',
+      plugin: 'postcss-inline-extract',
+      html: '<div class="test">Hello</div>'
+    });
+  });
+
+  test('reports extracted and skipped elements via result messages', async () => {
+    const html = '<div>\n  <p class="a" style="color: red;">A</p>\n  <p style="margin: 0;">B</p>\n  <b class="c" style="color: {{ c }};" data-x="1">C</b>\n</div>';
+
+    const result = await postcss([plugin({ html })])
+      .process('', { from: undefined });
+
+    expect(result.messages).toContainEqual({
+      type: 'extraction',
+      plugin: 'postcss-inline-extract',
+      elements: [
+        { tagName: 'p', attributes: { class: 'a', style: 'color: red;' }, line: 2, column: 3, selector: '.a', props: ['color: red'] }
+      ],
+      skipped: [
+        { tagName: 'p', attributes: { style: 'margin: 0;' }, line: 3, column: 3, reason: 'no-selector' },
+        { tagName: 'b', attributes: { class: 'c', style: 'color: {{ c }};', 'data-x': '1' }, line: 4, column: 3, reason: 'interpolation' }
+      ]
+    });
+  });
+
+  test('emits atomic classes and reports them via result messages', async () => {
+    const html = '<p style="color: red;">A</p><p style="color: red; margin: 0;">B</p>';
+
+    const result = await postcss([plugin({ html, atomic: true })])
+      .process('', { from: undefined });
+
+    expect(result.css).toBe('.i3fdle {\n  color: red;\n}\n\n.z469me {\n  margin: 0;\n}');
+    expect(result.messages).toContainEqual({
+      type: 'atomic',
+      plugin: 'postcss-inline-extract',
+      elements: [
+        { index: 0, element: '<p>', classes: ['i3fdle'] },
+        { index: 1, element: '<p>', classes: ['i3fdle', 'z469me'] }
+      ]
+    });
+  });
+
+  test('exposes extract as a standalone function', () => {
+    const { styles, html } = plugin.extract({
+      html: '<div style="color: red;">Hello</div>',
+      selector: 'hash'
+    });
+
+    expect(html).toBe(`<div class="${styles[0]?.selector.slice(1)}">Hello</div>`);
+  });
+
+  test('replaces the input CSS by default', async () => {
+    const html = '<div style="color: red;" class="test">Hello</div>';
+
+    await run('.existing { margin: 0 }', '.test {\n  color: red;\n}', { html });
+  });
+
+  test('appends extracted rules when mode is append', async () => {
+    const html = '<div style="color: red;" class="test">Hello</div>';
+
+    await run(
+      '.existing { margin: 0 }',
+      `.existing { margin: 0 }
+.test {
+  color: red;
+}`,
+      { html, mode: 'append' }
+    );
+  });
+
+  test('prepends extracted rules after @charset and @import when mode is prepend', async () => {
+    const html = '<div style="color: red;" class="test">Hello</div>';
+
+    await run(
+      '@charset "utf-8";\n@import "base.css";\n.existing { margin: 0 }',
+      `@charset "utf-8";
+@import "base.css";
+.test {
+  color: red;
+}
+.existing { margin: 0 }`,
+      { html, mode: 'prepend' }
+    );
+
+    const result = await postcss([plugin({ html, mode: 'prepend' })]).process('@charset "utf-8";', { from: undefined });
+
+    expect(result.css).toBe('@charset "utf-8";\n.test {\n  color: red;\n}');
+  });
+
+  test('merges extracted rules into rules with matching selectors when mode is merge', async () => {
+    const html = `
+      <div style="color: red; margin: 0;" class="b a">Hello</div>
+      <div style="padding: 5px;" class="other">World</div>
+    `;
+
+    await run(
+      '.a.b {\n  margin: 0;\n}\n.c { color: blue }',
+      `.a.b {
+  margin: 0;
+  color: red;
+}
+.c { color: blue }
+.other {
+  padding: 5px;
+}`,
+      { html, mode: 'merge' }
+    );
+  });
+
+  test('resolves conflicts with existing declarations when mode is merge', async () => {
+    const html = '<div style="color: red; margin: 0;" class="a">Hello</div>';
+
+    await run(
+      '.a {\n  color: blue;\n}',
+      `.a {
+  color: red;
+  margin: 0;
+}`,
+      { html, mode: 'merge' }
+    );
+    await run(
+      '.a {\n  color: blue;\n}',
+      `.a {
+  color: blue;
+  margin: 0;
+}`,
+      { html, mode: 'merge', conflict: 'first' }
+    );
+  });
+
+  test('drops existing longhands overridden by an extracted shorthand when mode is merge', async () => {
+    await run(
+      '.a {\n  margin-top: 4px;\n  cursor: pointer;\n}',
+      `.a {
+  cursor: pointer;
+  margin: 0;
+}`,
+      { html: '<div style="margin: 0;" class="a">Hello</div>', mode: 'merge' }
+    );
+  });
+
+  test('merges extracted rules within at-rules with the same prelude when mode is merge', async () => {
+    await run(
+      '.btn { color: red }\n@media  print {\n  .btn {\n    margin: 0;\n  }\n}',
+      `.btn { color: red }
+@media  print {
+  .btn {
+    margin: 0;
+    color: blue;
+  }
+}`,
+      { html: '<style>@media print { .btn { color: blue } }</style><a class="btn">Link</a>', mode: 'merge', styleTags: true }
+    );
+    await run(
+      '@layer extracted {\n  .a {\n    margin: 0;\n  }\n}',
+      `@layer extracted {
+  .a {
+    margin: 0;
+    color: red;
+  }
+  .b {
+    color: blue;
+  }
+}`,
+      { html: '<div style="color: red;" class="a">A</div><div style="color: blue;" class="b">B</div>', mode: 'merge', layer: 'extracted' }
+    );
+  });
+
+  test('drops extracted declarations guaranteed by existing rules when skipExisting is enabled', async () => {
+    const html = '<a class="btn" style="color: red; margin: 0;">Link</a>';
+    const result = await postcss([plugin({ html, mode: 'append', skipExisting: true })])
+      .process('.btn { color: red }', { from: undefined });
+
+    expect(result.css).toBe('.btn { color: red }\n.btn {\n  margin: 0;\n}');
+    expect(result.messages).toContainEqual({
+      type: 'redundant',
+      plugin: 'postcss-inline-extract',
+      declarations: [
+        { tagName: 'a', attributes: { class: 'btn', style: 'color: red; margin: 0;' }, line: 1, column: 1, selector: '.btn', prop: 'color: red', rule: '.btn' }
+      ]
+    });
+  });
+
+  test('checks existing rules matching the element by their specificity when skipExisting is enabled', async () => {
+    const html = '<div class="card"><a class="btn" style="color: red;">A</a></div><p class="text" style="color: red;">B</p>';
+    const result = await postcss([plugin({ html, mode: 'append', skipExisting: true })])
+      .process('.card .btn, p { color: red }\n.text:hover { color: red }', { from: undefined });
+
+    expect(result.css).toBe('.card .btn, p { color: red }\n.text:hover { color: red }\n.text {\n  color: red;\n}');
+    expect(result.messages.find(message => message.type === 'html')?.html).toBe('<div class="card"><a class="btn">A</a></div><p class="text">B</p>');
+    expect(result.messages.find(message => message.type === 'redundant')?.declarations).toMatchObject([
+      { selector: '.btn', prop: 'color: red', rule: '.card .btn, p' }
+    ]);
+  });
+
+  test('keeps extracted declarations overridden by later existing rules when skipExisting is enabled', async () => {
+    const html = '<p class="a" style="color: red; margin-top: 0;">Text</p>';
+    const result = await postcss([plugin({ html, mode: 'append', skipExisting: true })])
+      .process('.a { color: red; margin-top: 0 }\n.a { color: blue; margin: 4px }', { from: undefined });
+
+    expect(result.css).toBe('.a { color: red; margin-top: 0 }\n.a { color: blue; margin: 4px }\n.a {\n  color: red;\n  margin-top: 0;\n}');
+    expect(result.messages.find(message => message.type === 'redundant')?.declarations).toEqual([]);
+  });
+
+  test('reports errors for conflicting declarations when conflict is error', async () => {
+    const html = '<div style="color: red;" class="a">Hello</div><div style="color: blue;" class="a">World</div>';
+
+    await expect(postcss([plugin({ html, conflict: 'error' })]).process('', { from: undefined }))
+      .rejects.toThrow('Failed to extract inline styles: Conflicting declarations in .a');
+  });
+
+  test('extracts styles from files and glob patterns', async () => {
+    const cwd = resolve('tests/fixtures');
+
+    await run(
+      '',
+      `.button {
+  color: red;
+  padding: 5px;
+}
+
+.post {
+  font-size: 16px;
+}
+
+.text {
+  margin: 0;
+}`,
+      { files: ['pages/**/*.html'], cwd }
+    );
+  });
+
+  test('registers HTML files as dependencies', async () => {
+    const cwd = resolve('tests/fixtures');
+
+    const result = await postcss([plugin({ files: ['pages/index.html', 'pages/blog/*.html'], cwd })])
+      .process('', { from: '/src/style.css' });
+
+    expect(result.messages.filter(message => message.type !== 'html' && message.type !== 'extraction')).toEqual([
+      { type: 'dependency', plugin: 'postcss-inline-extract', file: resolve(cwd, 'pages/index.html'), parent: '/src/style.css' },
+      { type: 'dependency', plugin: 'postcss-inline-extract', file: resolve(cwd, 'pages/blog/post.html'), parent: '/src/style.css' },
+      { type: 'dir-dependency', plugin: 'postcss-inline-extract', dir: resolve(cwd, 'pages/blog'), glob: '*.html', parent: '/src/style.css' }
+    ]);
+    expect(result.messages).toContainEqual({
+      type: 'html',
+      plugin: 'postcss-inline-extract',
+      file: resolve(cwd, 'pages/blog/post.html'),
+      html: expect.stringContaining('<article class="post">Post</article>')
+    });
+  });
+
+  test('points sources of extracted nodes at the HTML', async () => {
+    const cwd = resolve('tests/fixtures');
+
+    const result = await postcss([plugin({ files: ['pages/index.html'], cwd })])
+      .process('', { from: undefined });
+    const rule = result.root.first;
+
+    expect(rule?.type).toBe('rule');
+    expect(rule?.source?.input.file).toBe(resolve(cwd, 'pages/index.html'));
+    expect(rule?.source?.start).toEqual({ line: 4, column: 23, offset: 52 });
+    expect(rule?.type === 'rule' && rule.first?.source?.start).toEqual({ line: 4, column: 30, offset: 59 });
+  });
+
+  test('points sources of rules from style tags at the HTML', async () => {
+    const html = '<html>\n<style>\n  @media print {\n    .a { color: red; }\n  }\n</style>\n</html>';
+
+    const result = await postcss([plugin({ html, styleTags: true })])
+      .process('', { from: undefined });
+    const media = result.root.first;
+    const rule = media?.type === 'atrule' ? media.first : undefined;
+
+    expect(media?.source?.start).toMatchObject({ line: 4, column: 5 });
+    expect(rule?.source?.start).toMatchObject({ line: 4, column: 5 });
+    expect(rule?.type === 'rule' && rule.first?.source?.start).toMatchObject({ line: 4, column: 10 });
+  });
+
+  test('generates source maps pointing to the HTML', async () => {
+    const cwd = resolve('tests/fixtures');
+
+    const result = await postcss([plugin({ files: ['pages/index.html'], cwd })])
+      .process('', { from: resolve(cwd, 'style.css'), to: resolve(cwd, 'out.css'), map: { inline: false } });
+    const map = result.map.toJSON();
+
+    expect(map.sources).toEqual(['pages/index.html']);
+    expect(map.sourcesContent?.[0]).toContain('<div class="button" style="color: red;">Home</div>');
+  });
+
+  test('reports warnings at their location in the HTML', async () => {
+    const html = '<div>\n  <p class="a" style="color: red; oops">Hello</p>\n</div>';
+
+    const result = await postcss([plugin({ html })])
+      .process('', { from: undefined });
+
+    expect(result.warnings()).toHaveLength(1);
+    expect(result.warnings()[0]).toMatchObject({ line: 2, column: 35 });
+  });
+
   test('handles empty HTML', async () => {
     await run('', '', { html: '' });
   });
@@ -168,11 +520,15 @@ describe('postcss-inline-extract plugin', () => {
   test('handles malformed style attributes gracefully', async () => {
     const html = '<div style="color: red; invalid-property;" class="test">Hello</div>';
 
-    // Current implementation extracts all properties in style attribute
-    await run(
-      '',
-      '',  // Empty because "invalid-property;" has no value, so no valid CSS is generated
-      { html, selector: 'class' }
-    );
+    const result = await postcss([plugin({ html, selector: 'class' })])
+      .process('', { from: undefined });
+
+    // Malformed declarations are skipped with a warning
+    expect(result.css.trim()).toBe(`.test {
+  color: red;
+}`);
+    expect(result.warnings()).toHaveLength(1);
+    expect(result.warnings()[0]?.text).toBe('Malformed declaration "invalid-property" in style attribute of <div class="test">');
+    expect(result.warnings()[0]?.plugin).toBe('postcss-inline-extract');
   });
 });
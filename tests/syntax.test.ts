@@ -0,0 +1,83 @@
+import { describe, test, expect } from 'vitest';
+import postcss from 'postcss';
+import type { Plugin } from 'postcss';
+import plugin from '../src/index.ts';
+import { parse } from '../src/syntax.ts';
+
+const html = `<html>
+<style>
+  .a { color: blue; }
+</style>
+<p class="b" style="color: red; margin: 0">Text</p>
+</html>`;
+
+describe('syntax', () => {
+  test('exposes style attributes and style blocks as nodes', () => {
+    const root = parse(html, { from: 'page.html' });
+
+    expect(root.nodes.map(node => node.type === 'rule' ? node.selector : node.type)).toEqual(['.a', 'p[style]']);
+    expect(root.last?.toString()).toBe('p[style] {color: red; margin: 0; }');
+  });
+
+  test('points the sources of the nodes at the HTML', () => {
+    const root = parse(html, { from: 'page.html' });
+    const decls: unknown[] = [];
+
+    root.walkDecls(decl => {
+      decls.push({ prop: decl.prop, file: decl.source?.input.file, start: decl.source?.start });
+    });
+    expect(decls).toEqual([
+      { prop: 'color', file: expect.stringMatching(/page\.html$/), start: { line: 3, column: 8, offset: 22 } },
+      { prop: 'color', file: expect.stringMatching(/page\.html$/), start: { line: 5, column: 21, offset: 66 } },
+      { prop: 'margin', file: expect.stringMatching(/page\.html$/), start: { line: 5, column: 33, offset: 78 } }
+    ]);
+  });
+
+  test('leaves out style attributes that are not valid CSS', () => {
+    expect(parse('<p style="color">Text</p><p style="margin: 0">Text</p>').nodes).toHaveLength(1);
+  });
+
+  test('outputs the extracted stylesheet of the HTML', async () => {
+    const result = await postcss([plugin({ styleTags: true, mode: 'append' })])
+      .process(html, { syntax: plugin.syntax, from: 'page.html' });
+
+    expect(result.css).toBe(`.b {
+  color: red;
+  margin: 0;
+}
+
+.a {
+  color: blue;
+}`);
+    expect(result.root.source?.input.file).toMatch(/page\.html$/);
+    expect(result.messages.filter(message => message.type === 'dependency')).toHaveLength(0);
+    expect(result.messages.find(message => message.type === 'html')).toMatchObject({
+      file: expect.stringMatching(/page\.html$/),
+      html: '<html>\n\n<p class="b">Text</p>\n</html>'
+    });
+  });
+
+  test('discards changes made to the nodes before the plugin runs', async () => {
+    const edit: Plugin = {
+      postcssPlugin: 'edit',
+      Once: root => {
+        root.walkDecls(decl => {
+          decl.value = 'green';
+        });
+      }
+    };
+    const result = await postcss([edit, plugin({ styleTags: true })])
+      .process(html, { syntax: plugin.syntax, from: 'page.html' });
+
+    expect(result.css).not.toContain('green');
+  });
+
+  test('reports warnings at their position in the HTML file', async () => {
+    const result = await postcss([plugin()])
+      .process('<div>\n  <p class="a" style="">Text</p>\n</div>', { syntax: plugin.syntax, from: 'page.html' });
+
+    expect(result.warnings().map(warning => [warning.text, warning.line, warning.column])).toEqual([
+      ['Empty style attribute of <p class="a">', 2, 16]
+    ]);
+  });
+});